@@ -0,0 +1,242 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router";
+import type { BoardInvite, BoardRole } from "./database";
+import { BOARD_ROLES, INVITE_ROLES } from "./schemas";
+import type { InviteCreate } from "./schemas";
+import { useBoard } from "./components/RequireBoard";
+import { useCurrentUser } from "./components/RequireUser";
+import "./index.css";
+
+const ROLE_LABELS: Record<BoardRole, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'Can view',
+};
+
+const formatExpiry = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const inviteLink = (invite: BoardInvite) => `${window.location.origin}/invite/${invite.id}`;
+
+export function BoardSettings() {
+  const { board, members, api, refreshBoard } = useBoard();
+  const { user } = useCurrentUser();
+  const navigate = useNavigate();
+  const [name, setName] = useState(board.name);
+  const [invites, setInvites] = useState<BoardInvite[]>([]);
+  const [inviteRole, setInviteRole] = useState<InviteCreate["role"]>('editor');
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = board.role === 'owner';
+
+  useEffect(() => {
+    if (isOwner) {
+      fetchInvites();
+    }
+  }, [board.id, isOwner]);
+
+  const fetchInvites = async () => {
+    try {
+      const response = await fetch(`${api}/invites`);
+      const data = await response.json();
+      setInvites(data.invites);
+    } catch (error) {
+      console.error('Error fetching invites:', error);
+    }
+  };
+
+  // Runs a change, showing the server's reason when it's refused
+  const send = async (url: string, method: string, body?: object): Promise<boolean> => {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error ?? 'Something went wrong');
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error(`Error with ${method} ${url}:`, error);
+      setError('Could not reach the server');
+      return false;
+    }
+  };
+
+  const rename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim() && await send(api, 'PUT', { name: name.trim() })) {
+      refreshBoard();
+    }
+  };
+
+  const setRole = async (userId: string, role: BoardRole) => {
+    if (await send(`${api}/members/${userId}`, 'PUT', { role })) {
+      refreshBoard();
+    }
+  };
+
+  const removeMember = async (userId: string) => {
+    if (!await send(`${api}/members/${userId}`, 'DELETE')) return;
+
+    if (userId === user.id) {
+      navigate('/', { replace: true });
+    } else {
+      refreshBoard();
+    }
+  };
+
+  const createInvite = async () => {
+    const body: InviteCreate = { role: inviteRole };
+    if (await send(`${api}/invites`, 'POST', body)) {
+      fetchInvites();
+    }
+  };
+
+  const deleteInvite = async (id: string) => {
+    if (await send(`${api}/invites/${id}`, 'DELETE')) {
+      setInvites(prev => prev.filter(invite => invite.id !== id));
+    }
+  };
+
+  const deleteBoard = async () => {
+    if (await send(api, 'DELETE')) {
+      navigate('/', { replace: true });
+    }
+  };
+
+  return (
+    <div className="todo-app">
+      <header className="app-header">
+        <h1>{board.name}</h1>
+        <nav className="app-nav">
+          <Link to={`/boards/${board.id}`}>← Back to tasks</Link>
+        </nav>
+      </header>
+
+      <main className="app-main">
+        <section className="stats-section board-settings">
+          {error && <p className="board-settings-error">{error}</p>}
+
+          {isOwner && (
+            <form className="board-rename" onSubmit={rename}>
+              <h2>Name</h2>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+              />
+              <button
+                type="submit"
+                className="btn-small btn-primary"
+                disabled={!name.trim() || name.trim() === board.name}
+              >
+                Rename
+              </button>
+            </form>
+          )}
+
+          <h2>Members</h2>
+          <ul className="board-members">
+            {members.map(member => (
+              <li key={member.user_id} className="board-member">
+                <div className="board-member-name">
+                  <span>{member.name}{member.user_id === user.id && ' (you)'}</span>
+                  <span className="board-member-email">{member.email}</span>
+                </div>
+                {isOwner ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => setRole(member.user_id, e.target.value as BoardRole)}
+                  >
+                    {BOARD_ROLES.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="board-member-role">{ROLE_LABELS[member.role]}</span>
+                )}
+                {member.user_id === user.id ? (
+                  <button className="btn-small btn-secondary" onClick={() => removeMember(member.user_id)}>
+                    Leave
+                  </button>
+                ) : isOwner && (
+                  <button className="btn-small btn-danger" onClick={() => removeMember(member.user_id)}>
+                    Remove
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {isOwner && (
+            <>
+              <h2>Invite links</h2>
+              <p className="stats-empty">
+                Anyone signed in with the link can join until it expires.
+              </p>
+              <div className="board-invite-create">
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as InviteCreate["role"])}
+                >
+                  {INVITE_ROLES.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <button className="btn-small btn-primary" onClick={createInvite}>
+                  Create link
+                </button>
+              </div>
+              <ul className="board-invites">
+                {invites.map(invite => (
+                  <li key={invite.id} className="board-invite">
+                    <input type="text" value={inviteLink(invite)} readOnly onFocus={(e) => e.target.select()} />
+                    <span className="board-member-role">
+                      {ROLE_LABELS[invite.role]} · until {formatExpiry(invite.expires_at)}
+                    </span>
+                    <button
+                      className="btn-small btn-secondary"
+                      onClick={() => navigator.clipboard.writeText(inviteLink(invite))}
+                    >
+                      Copy
+                    </button>
+                    <button className="btn-small btn-danger" onClick={() => deleteInvite(invite.id)}>
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <h2>Delete board</h2>
+              <div className="board-delete">
+                {isConfirmingDelete ? (
+                  <>
+                    <span>Every task on the board goes too, trash included.</span>
+                    <button className="btn-small btn-danger" onClick={deleteBoard}>
+                      Delete for good
+                    </button>
+                    <button className="btn-small btn-secondary" onClick={() => setIsConfirmingDelete(false)}>
+                      Keep it
+                    </button>
+                  </>
+                ) : (
+                  <button className="btn-small btn-danger" onClick={() => setIsConfirmingDelete(true)}>
+                    Delete board
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
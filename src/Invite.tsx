@@ -0,0 +1,85 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router";
+import type { BoardRole } from "./database";
+import "./index.css";
+
+interface InviteDetails {
+  board: { id: string; name: string };
+  role: Exclude<BoardRole, 'owner'>;
+  member: boolean;
+}
+
+export function Invite() {
+  const { token = "" } = useParams();
+  const navigate = useNavigate();
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    fetchInvite();
+  }, [token]);
+
+  const fetchInvite = async () => {
+    try {
+      const response = await fetch(`/api/invites/${token}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error ?? 'Failed to fetch invite');
+        return;
+      }
+
+      setInvite(data);
+    } catch (error) {
+      console.error('Error fetching invite:', error);
+      setError('Could not reach the server');
+    }
+  };
+
+  const accept = async () => {
+    setAccepting(true);
+    try {
+      const response = await fetch(`/api/invites/${token}/accept`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error ?? 'Failed to accept invite');
+        return;
+      }
+
+      navigate(`/boards/${data.board.id}`, { replace: true });
+    } catch (error) {
+      console.error('Error accepting invite:', error);
+      setError('Could not reach the server');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div className="login-page">
+      <div className="login-form">
+        <h1>Weekly Todo Manager</h1>
+        {error ? (
+          <>
+            <p className="login-error">{error}</p>
+            <Link to="/">Go to your boards</Link>
+          </>
+        ) : !invite ? (
+          <p>Loading invite...</p>
+        ) : (
+          <>
+            <h2>Join “{invite.board.name}”</h2>
+            <p>
+              {invite.member
+                ? "You're already on this board."
+                : `You've been invited to ${invite.role === 'editor' ? 'edit' : 'view'} this board's tasks.`}
+            </p>
+            <button className="btn-primary" onClick={accept} disabled={accepting}>
+              {invite.member ? 'Open board' : 'Join board'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
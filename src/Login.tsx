@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useLocation, useNavigate } from "react-router";
+import type { Login as LoginRequest, Registration } from "./schemas";
+import "./index.css";
+
+type Mode = 'login' | 'register';
+
+export function Login() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [mode, setMode] = useState<Mode>('login');
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    const body: LoginRequest | Registration = mode === 'login'
+      ? { email, password }
+      : { email, name, password };
+
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error ?? 'Something went wrong');
+        return;
+      }
+
+      navigate(location.state?.from ?? '/', { replace: true });
+    } catch (error) {
+      console.error(`Error with ${mode}:`, error);
+      setError('Could not reach the server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-page">
+      <form className="login-form" onSubmit={handleSubmit}>
+        <h1>Weekly Todo Manager</h1>
+        <h2>{mode === 'login' ? 'Log in' : 'Create an account'}</h2>
+
+        {mode === 'register' && (
+          <div className="form-group">
+            <input
+              type="text"
+              className="task-title-input"
+              placeholder="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoComplete="name"
+              required
+            />
+          </div>
+        )}
+        <div className="form-group">
+          <input
+            type="email"
+            className="task-title-input"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            autoFocus
+            required
+          />
+        </div>
+        <div className="form-group">
+          <input
+            type="password"
+            className="task-title-input"
+            placeholder={mode === 'register' ? 'Password (at least 8 characters)' : 'Password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+            minLength={mode === 'register' ? 8 : undefined}
+            required
+          />
+        </div>
+
+        {error && <p className="login-error">{error}</p>}
+
+        <button type="submit" className="btn-primary" disabled={submitting}>
+          {mode === 'login' ? 'Log in' : 'Sign up'}
+        </button>
+
+        <p className="login-switch">
+          {mode === 'login' ? (
+            <>
+              No account yet?{' '}
+              <button type="button" onClick={() => switchMode('register')}>Sign up</button>
+            </>
+          ) : (
+            <>
+              Already have an account?{' '}
+              <button type="button" onClick={() => switchMode('login')}>Log in</button>
+            </>
+          )}
+        </p>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router";
+import type { PersonFocus, PomodoroStats } from "./database";
+import "./index.css";
+
+const RANGES = [7, 30, 90];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatMinutes = (seconds: number) => `${Math.round(seconds / 60)}m`;
+
+// Every date from `from` to `to`, so days without sessions still get a bar
+const listDays = (from: string, to: string): string[] => {
+  const days: string[] = [];
+  const date = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (date <= end) {
+    days.push(date.toISOString().slice(0, 10));
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return days;
+};
+
+export function Stats() {
+  // Opened from a board, the page also splits that board's focus time by person
+  const [searchParams] = useSearchParams();
+  const boardId = searchParams.get('board');
+  const [days, setDays] = useState(30);
+  const [stats, setStats] = useState<PomodoroStats | null>(null);
+  const [board, setBoard] = useState<{ id: string; name: string } | null>(null);
+  const [people, setPeople] = useState<PersonFocus[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchStats();
+  }, [days]);
+
+  useEffect(() => {
+    if (boardId) {
+      fetchBoardStats(boardId);
+    }
+  }, [days, boardId]);
+
+  const fetchStats = async () => {
+    try {
+      const tzOffset = new Date().getTimezoneOffset();
+      const response = await fetch(`/api/stats?days=${days}&tzOffset=${tzOffset}`);
+      const data = await response.json();
+      setStats(data.stats);
+    } catch (error) {
+      console.error('Error fetching stats:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchBoardStats = async (id: string) => {
+    try {
+      const tzOffset = new Date().getTimezoneOffset();
+      const response = await fetch(`/api/boards/${id}/stats?days=${days}&tzOffset=${tzOffset}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch board stats');
+      }
+
+      const data = await response.json();
+      setBoard(data.board);
+      setPeople(data.people);
+    } catch (error) {
+      console.error('Error fetching board stats:', error);
+    }
+  };
+
+  const backTo = boardId ? `/boards/${boardId}` : "/";
+
+  if (loading) {
+    return <div className="loading">Loading stats...</div>;
+  }
+
+  if (!stats) {
+    return (
+      <div className="empty-state">
+        <p>Stats are not available right now.</p>
+        <Link to={backTo}>Back to tasks</Link>
+      </div>
+    );
+  }
+
+  const dailyByDay = new Map(stats.daily.map(d => [d.day, d]));
+  const daily = listDays(stats.range.from, stats.range.to).map(day => ({
+    day,
+    focused_seconds: dailyByDay.get(day)?.focused_seconds ?? 0,
+  }));
+  const maxDaily = Math.max(1, ...daily.map(d => d.focused_seconds));
+
+  const weekdays = WEEKDAY_NAMES.map((name, weekday) => ({
+    name,
+    focused_seconds: stats.weekdays.find(w => w.weekday === weekday)?.focused_seconds ?? 0,
+  }));
+  const maxWeekday = Math.max(1, ...weekdays.map(w => w.focused_seconds));
+
+  const totalFocused = daily.reduce((total, d) => total + d.focused_seconds, 0);
+
+  return (
+    <div className="todo-app">
+      <header className="app-header">
+        <h1>Focus Stats</h1>
+        <nav className="app-nav">
+          <Link to={backTo}>← Back to tasks</Link>
+        </nav>
+      </header>
+
+      <main className="app-main stats-page">
+        <div className="day-selector">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              className={`day-tab ${days === range ? 'active' : ''}`}
+              onClick={() => setDays(range)}
+            >
+              Last {range} days
+            </button>
+          ))}
+        </div>
+
+        <div className="stats-cards">
+          <div className="stats-card">
+            <div className="stats-value">{formatMinutes(totalFocused)}</div>
+            <div className="stats-label">Focused</div>
+          </div>
+          <div className="stats-card">
+            <div className="stats-value">{Math.round(stats.outcomes.completion_rate * 100)}%</div>
+            <div className="stats-label">
+              Completed ({stats.outcomes.completed} of {stats.outcomes.completed + stats.outcomes.abandoned})
+            </div>
+          </div>
+          <div className="stats-card">
+            <div className="stats-value">{stats.streaks.current}</div>
+            <div className="stats-label">Current streak (days)</div>
+          </div>
+          <div className="stats-card">
+            <div className="stats-value">{stats.streaks.best}</div>
+            <div className="stats-label">Best streak (days)</div>
+          </div>
+        </div>
+
+        <section className="stats-section">
+          <h2>Focused minutes per day</h2>
+          <div className="bar-chart">
+            {daily.map(d => (
+              <div
+                key={d.day}
+                className="bar"
+                style={{ height: `${(d.focused_seconds / maxDaily) * 100}%` }}
+                title={`${d.day}: ${formatMinutes(d.focused_seconds)}`}
+              />
+            ))}
+          </div>
+        </section>
+
+        <section className="stats-section">
+          <h2>Focused minutes per weekday</h2>
+          <div className="bar-chart labelled">
+            {weekdays.map(w => (
+              <div key={w.name} className="bar-column">
+                <div className="bar-track">
+                  <div
+                    className="bar"
+                    style={{ height: `${(w.focused_seconds / maxWeekday) * 100}%` }}
+                    title={formatMinutes(w.focused_seconds)}
+                  />
+                </div>
+                <span className="bar-label">{w.name}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="stats-section">
+          <h2>Top tasks</h2>
+          {stats.top_tasks.length === 0 ? (
+            <p className="stats-empty">No focus time linked to tasks yet.</p>
+          ) : (
+            <ol className="top-tasks">
+              {stats.top_tasks.map(task => (
+                <li key={task.task_id}>
+                  <span className="top-task-title">{task.title}</span>
+                  <span className="task-focus">
+                    🍅 {task.completed_pomodoros} · {formatMinutes(task.focused_seconds)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        {board && (
+          <section className="stats-section">
+            <h2>Focus by person on {board.name}</h2>
+            {people.length === 0 ? (
+              <p className="stats-empty">No focus time on this board's tasks yet.</p>
+            ) : (
+              <ol className="top-tasks">
+                {people.map(person => (
+                  <li key={person.user_id}>
+                    <span className="top-task-title">{person.name}</span>
+                    <span className="task-focus">
+                      🍅 {person.completed_pomodoros} · {formatMinutes(person.focused_seconds)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
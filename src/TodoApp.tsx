@@ -1,94 +1,673 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { Link, useNavigate } from "react-router";
 import { Task, PomodoroSession } from "./database";
+import type {
+  ActivityRevert,
+  SeriesScope,
+  Subtask,
+  Tag,
+  TaskBatchOperation,
+  TaskMove,
+  TaskFocusSummary,
+  TaskSeries,
+  TimerPreferences,
+  TimerPreferencesUpdate,
+} from "./database";
+import type { RecurrenceRule } from "./recurrence";
+import type { TimerSnapshot } from "./timer";
+import type { SocketMessage, SubtaskUpdate, TaskUpdate, TimerCommand, TimerCommandPayload } from "./schemas";
+import { addDays, parseISODate, startOfWeek, today, weekDates } from "./dates";
 import { PomodoroTimer } from "./components/PomodoroTimer";
-import { TaskList } from "./components/TaskList";
+import { TaskList, TASK_DRAG_TYPE } from "./components/TaskList";
+import type { EditConflict } from "./components/TaskItem";
 import { AddTaskForm } from "./components/AddTaskForm";
+import { TagFilterBar } from "./components/TagFilterBar";
+import { SearchBox } from "./components/SearchBox";
+import { BoardSwitcher } from "./components/BoardSwitcher";
+import { useBoard } from "./components/RequireBoard";
+import { useCurrentUser } from "./components/RequireUser";
+import { listMutations, loadSnapshot, queueMutation, replayMutations, saveSnapshot, send } from "./offline";
+import type { MutationRequest, QueuedMutation } from "./offline";
+import type { EventPosition } from "./events";
+import { editorsOf, viewersOf } from "./presence";
+import type { Presence } from "./presence";
+import { initials } from "./components/AssigneeChip";
 
 interface WebSocketMessage {
   type: string;
   task?: Task;
   session?: PomodoroSession;
+  preferences?: TimerPreferences;
+  timer?: TimerSnapshot;
   id?: string;
   day?: string;
   taskIds?: string[];
+  tasks?: Task[];
+  deletedIds?: string[];
+  series?: TaskSeries[];
+  from?: TaskMove["from"];
+  to?: TaskMove["to"];
+  subtask?: Subtask;
+  taskId?: string;
+  subtaskIds?: string[];
+  subtasks?: Subtask[];
+  order?: ActivityRevert["order"];
+  tag?: Tag;
+  tags?: Tag[];
+  boardId?: string;
+  seq?: number; // on board events, and where 'subscribed' and 'snapshot' leave off
+  epoch?: string;
+  mutationId?: string; // on events caused by a change a client asked for
+  socketId?: string;
+  presence?: Presence[];
 }
 
-const DAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
-const DAY_NAMES = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+// What the task endpoints answer a change with; only changes that did something are logged
+interface MutationResponse {
+  activityId: string | null;
+}
+
+// An operation of ours that can be undone, named for the button's tooltip
+interface UndoEntry {
+  activityId: string;
+  label: string;
+}
+
+// How many operations can be undone
+const MAX_UNDO = 50;
+
+// How long a failed undo or redo is explained for
+const UNDO_MESSAGE_DURATION = 4000;
+
+// How long a task found by search stays highlighted
+const SEARCH_HIT_DURATION = 2000;
+
+// How long a change the server refused is explained for
+const ERROR_TOAST_DURATION = 5000;
+
+// How long a note about offline changes the server refused stays up
+const SYNC_MESSAGE_DURATION = 6000;
+
+// Reconnecting waits twice as long after each failed try, up to the maximum
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// Spread out so clients dropped together don't all come back at once
+const reconnectDelay = (attempt: number) =>
+  Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt) * (0.5 + Math.random() / 2);
+
+// How long a task has to hover over a day tab before that day opens
+const DAY_TAB_OPEN_DELAY = 600;
+
+type TasksByDay = { [key: string]: Task[] };
+
+// The week's days, or every day with a task assigned to the signed-in user
+type View = 'week' | 'mine';
+
+// Moves each task into its day's list, keeping lists in display order
+const upsertTasks = (prev: TasksByDay, changed: Task[]): TasksByDay => {
+  const ids = new Set(changed.map(task => task.id));
+  const next: TasksByDay = {};
+  Object.keys(prev).forEach(day => {
+    next[day] = prev[day]!.filter(task => !ids.has(task.id));
+  });
+  changed.forEach(task => {
+    next[task.day] = [...(next[task.day] || []), task];
+  });
+  changed.forEach(task => {
+    next[task.day]!.sort((a, b) => a.priority - b.priority || a.created_at.localeCompare(b.created_at));
+  });
+  return next;
+};
+
+const removeTasks = (prev: TasksByDay, ids: string[]): TasksByDay => {
+  const removed = new Set(ids);
+  const next: TasksByDay = {};
+  Object.keys(prev).forEach(day => {
+    next[day] = prev[day]!.filter(task => !removed.has(task.id));
+  });
+  return next;
+};
+
+// Puts a day's tasks in the given order and numbers them to match
+const placeTasks = (prev: TasksByDay, day: string, taskIds: string[]): TasksByDay => {
+  const byId = new Map((prev[day] || []).map(task => [task.id, task]));
+  const ordered = taskIds.map(id => byId.get(id)).filter(Boolean) as Task[];
+  return { ...prev, [day]: ordered.map((task, index) => ({ ...task, priority: index + 1 })) };
+};
+
+// Makes a batch's changes the way the server does, in order
+const applyOperations = (prev: TasksByDay, operations: TaskBatchOperation[]): TasksByDay =>
+  operations.reduce((next, operation) => {
+    const task = Object.values(next).flat().find(t => t.id === operation.id);
+    if (!task) return next;
+    if (operation.op === 'delete') return removeTasks(next, [task.id]);
+    if (operation.op === 'update') return upsertTasks(next, [{ ...task, ...operation.changes }]);
+
+    // Moves go to the end of the day
+    const taskIds = [...(next[operation.day] || []).map(t => t.id).filter(id => id !== task.id), task.id];
+    return placeTasks(upsertTasks(next, [{ ...task, day: operation.day }]), operation.day, taskIds);
+  }, prev);
+
+const sortTags = (tags: Tag[]) =>
+  [...tags].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+
+const formatDay = (day: string, options: Intl.DateTimeFormatOptions) =>
+  parseISODate(day).toLocaleDateString('en-US', options);
 
 export function TodoApp() {
+  const { user, logOut, signInAgain } = useCurrentUser();
+  // Switching boards remounts this, so everything below is for one board
+  const { board, members, api, canEdit, refreshBoard } = useBoard();
+  // Task changes waiting for a connection, oldest first
+  const [pending, setPending] = useState<QueuedMutation[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
+  // Edits refused as stale, shown on their task until the user merges them
+  const [conflicts, setConflicts] = useState<{ [taskId: string]: EditConflict }>({});
+  // Read by mutations started before a render caught up with the queue
+  const pendingRef = useRef<QueuedMutation[]>([]);
+  const navigate = useNavigate();
   const [tasks, setTasks] = useState<{ [key: string]: Task[] }>({});
   const [loading, setLoading] = useState(true);
   const [ws, setWs] = useState<WebSocket | null>(null);
-  const [selectedDay, setSelectedDay] = useState<string>("monday");
+  const [selectedDay, setSelectedDay] = useState<string>(today());
+  const [weekStart, setWeekStart] = useState<string>(startOfWeek(today()));
+  const [preferences, setPreferences] = useState<TimerPreferences | null>(null);
+  const [timer, setTimer] = useState<TimerSnapshot | null>(null);
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(null);
+  const [focusSummaries, setFocusSummaries] = useState<{ [taskId: string]: TaskFocusSummary }>({});
+  const [series, setSeries] = useState<{ [seriesId: string]: TaskSeries }>({});
+  const [subtasks, setSubtasks] = useState<{ [taskId: string]: Subtask[] }>({});
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [view, setView] = useState<View>('week');
+  const [scrollToTaskId, setScrollToTaskId] = useState<string | null>(null);
+  const [dropTargetDay, setDropTargetDay] = useState<string | null>(null);
+  const dayTabTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const [undoMessage, setUndoMessage] = useState<string | null>(null);
+  // Set while an undo or redo is in flight, so a held-down key doesn't send the same one twice
+  const isRevertingRef = useRef(false);
+  const isSyncingRef = useRef(false);
+  // The last board event applied, null until the server has numbered them for us
+  const positionRef = useRef<EventPosition | null>(null);
+  // Set while the server resends events we missed; later ones are in that batch
+  const isCatchingUpRef = useRef(false);
+  // Our changes the server hasn't echoed yet, oldest first, with the tasks each touches
+  const ownMutationsRef = useRef(new Map<string, string[]>());
+  const [errorToast, setErrorToast] = useState<string | null>(null);
+  // Our socket's id on the board, once subscribed, and everyone there
+  const [socketId, setSocketId] = useState<string | null>(null);
+  const [presence, setPresence] = useState<Presence[]>([]);
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
 
+  // The WebSocket handler is bound once, so it reads preferences through a ref
+  const preferencesRef = useRef<TimerPreferences | null>(null);
   useEffect(() => {
-    // Initialize WebSocket connection
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const websocket = new WebSocket(`${protocol}//${window.location.host}/ws`);
-    
-    websocket.onopen = () => {
-      console.log('WebSocket connected');
-      setWs(websocket);
-    };
+    preferencesRef.current = preferences;
+  }, [preferences]);
 
-    websocket.onmessage = (event) => {
-      const message: WebSocketMessage = JSON.parse(event.data);
-      handleWebSocketMessage(message);
-    };
+  const days = weekDates(weekStart);
 
-    websocket.onclose = () => {
-      console.log('WebSocket disconnected');
-      setWs(null);
-    };
+  // The socket reconnects whenever it drops, and picks up where it left off
+  useEffect(() => {
+    let websocket: WebSocket | null = null;
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let isUnmounted = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      websocket = socket;
+
+      socket.onopen = () => {
+        console.log('WebSocket connected');
+        attempts = 0;
+        setWs(socket);
+        subscribe(socket);
+        syncPending();
+        // The timer may have moved on while we weren't listening
+        fetchTimer();
+      };
+
+      socket.onmessage = (event) => {
+        const message: WebSocketMessage = JSON.parse(event.data);
+        receiveMessage(socket, message);
+      };
+
+      socket.onclose = () => {
+        console.log('WebSocket disconnected');
+        setWs(null);
+        setSocketId(null);
+        setPresence([]);
+        if (!isUnmounted) {
+          retryTimeout = setTimeout(connect, reconnectDelay(attempts++));
+        }
+      };
 
-    websocket.onerror = (error) => {
-      console.error('WebSocket error:', error);
+      socket.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
     };
 
+    connect();
+
     return () => {
-      websocket.close();
+      isUnmounted = true;
+      if (retryTimeout) {
+        clearTimeout(retryTimeout);
+      }
+      websocket?.close();
     };
   }, []);
 
+  // Asks for the board's events, and for the ones after the last we applied
+  const subscribe = (socket: WebSocket) => {
+    const message: SocketMessage = {
+      type: 'subscribe',
+      boardId: board.id,
+      ...(positionRef.current && { since: positionRef.current }),
+    };
+    socket.send(JSON.stringify(message));
+  };
+
+  // Board events are applied in sequence; one that skips ahead means some
+  // were lost, so those are asked for again
+  const receiveMessage = (socket: WebSocket, message: WebSocketMessage) => {
+    const position = positionRef.current;
+    const isBoardEvent = message.seq !== undefined && message.type !== 'subscribed' && message.type !== 'snapshot';
+
+    if (isBoardEvent && position) {
+      if (message.seq! <= position.seq) return;
+      if (message.seq! > position.seq + 1) {
+        if (!isCatchingUpRef.current) {
+          isCatchingUpRef.current = true;
+          subscribe(socket);
+        }
+        return;
+      }
+      positionRef.current = { ...position, seq: message.seq! };
+    }
+
+    if (shouldApplyEcho(message.mutationId)) {
+      handleWebSocketMessage(message);
+    }
+  };
+
   useEffect(() => {
     fetchAllTasks();
+  }, [weekStart]);
+
+  // Tells the others where we are; subscribing again starts us over, so it's resent then
+  useEffect(() => {
+    if (!ws || !socketId) return;
+    const message: SocketMessage = {
+      type: 'presence',
+      day: view === 'week' ? selectedDay : null,
+      editingTaskId,
+    };
+    ws.send(JSON.stringify(message));
+  }, [ws, socketId, view, selectedDay, editingTaskId]);
+
+  useEffect(() => {
+    if (view === 'mine') {
+      fetchMyTasks();
+    }
+  }, [view]);
+
+  // A task picked from search may only show up once its week has loaded
+  useEffect(() => {
+    if (!scrollToTaskId) return;
+
+    const element = document.getElementById(`task-${scrollToTaskId}`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    element.classList.add('search-hit');
+    setTimeout(() => element.classList.remove('search-hit'), SEARCH_HIT_DURATION);
+    setScrollToTaskId(null);
+  }, [scrollToTaskId, tasks, selectedDay]);
+
+  // Changes queued in an earlier visit go out as soon as possible
+  useEffect(() => {
+    listMutations(board.id)
+      .then(queued => {
+        pendingRef.current = queued;
+        setPending(queued);
+        syncPending();
+      })
+      .catch(error => console.error('Error reading queued changes:', error));
+
+    window.addEventListener('online', syncPending);
+    return () => window.removeEventListener('online', syncPending);
+  }, []);
+
+  // Whatever is on screen is what opens next time there's no connection
+  useEffect(() => {
+    if (loading) return;
+    saveSnapshot({
+      boardId: board.id,
+      board,
+      members,
+      tasks: Object.values(tasks).flat(),
+      subtasks: Object.values(subtasks).flat(),
+      series: Object.values(series),
+      tags,
+      saved_at: new Date().toISOString(),
+    }).catch(error => console.error('Error saving the offline copy:', error));
+  }, [loading, tasks, subtasks, series, tags]);
+
+  useEffect(() => {
+    if (!errorToast) return;
+    const timeout = setTimeout(() => setErrorToast(null), ERROR_TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [errorToast]);
+
+  useEffect(() => {
+    if (!syncMessage) return;
+    const timeout = setTimeout(() => setSyncMessage(null), SYNC_MESSAGE_DURATION);
+    return () => clearTimeout(timeout);
+  }, [syncMessage]);
+
+  useEffect(() => {
+    fetchPreferences();
+    fetchTimer();
+    fetchFocusSummaries();
+    fetchTags();
   }, []);
 
+  const fetchTimer = async () => {
+    try {
+      const response = await fetch('/api/pomodoro/timer');
+      const data = await response.json();
+      applyTimer(data.timer);
+    } catch (error) {
+      console.error('Error fetching timer:', error);
+    }
+  };
+
+  const applyTimer = (snapshot: TimerSnapshot) => {
+    setTimer(snapshot);
+    // Follow the task another tab or device started focusing on
+    if (snapshot.status !== 'idle' && snapshot.task_id) {
+      setActiveTaskId(snapshot.task_id);
+    }
+  };
+
+  const fetchFocusSummaries = async () => {
+    try {
+      const response = await fetch('/api/pomodoro/summary');
+      const data = await response.json();
+
+      const summariesByTask: { [taskId: string]: TaskFocusSummary } = {};
+      data.summaries.forEach((summary: TaskFocusSummary) => {
+        summariesByTask[summary.task_id] = summary;
+      });
+
+      setFocusSummaries(summariesByTask);
+    } catch (error) {
+      console.error('Error fetching focus summaries:', error);
+    }
+  };
+
+  const fetchTags = async () => {
+    try {
+      const response = await fetch(`${api}/tags`);
+      const data = await response.json();
+      setTags(data.tags);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    }
+  };
+
+  const fetchPreferences = async () => {
+    try {
+      const response = await fetch('/api/pomodoro/preferences');
+      const data = await response.json();
+      setPreferences(data.preferences);
+    } catch (error) {
+      console.error('Error fetching timer preferences:', error);
+    }
+  };
+
+  // Loads every task of the week on screen
   const fetchAllTasks = async () => {
     try {
-      const response = await fetch('/api/tasks');
+      const response = await fetch(`${api}/tasks?from=${days[0]}&to=${days[6]}`);
       const data = await response.json();
       
       // Group tasks by day
       const tasksByDay: { [key: string]: Task[] } = {};
-      DAYS.forEach(day => {
+      days.forEach(day => {
         tasksByDay[day] = data.tasks.filter((task: Task) => task.day === day);
       });
       
-      setTasks(tasksByDay);
+      // Merge so a slow response for a week we've left doesn't wipe the current one
+      setTasks(prev => ({ ...prev, ...tasksByDay }));
+      mergeSeries(data.series);
+
+      const subtasksByTask: { [taskId: string]: Subtask[] } = {};
+      data.tasks.forEach((task: Task) => {
+        subtasksByTask[task.id] = data.subtasks.filter((subtask: Subtask) => subtask.task_id === task.id);
+      });
+      setSubtasks(prev => ({ ...prev, ...subtasksByTask }));
     } catch (error) {
       console.error('Error fetching tasks:', error);
+      await restoreSnapshot();
     } finally {
       setLoading(false);
     }
   };
 
+  // Shows the board as last seen, queued changes included, while offline
+  const restoreSnapshot = async () => {
+    try {
+      const snapshot = await loadSnapshot(board.id);
+      if (!snapshot) return;
+
+      setTasks(prev => upsertTasks(prev, snapshot.tasks));
+      mergeSeries(snapshot.series);
+      const subtasksByTask: { [taskId: string]: Subtask[] } = {};
+      snapshot.tasks.forEach(task => {
+        subtasksByTask[task.id] = snapshot.subtasks.filter(subtask => subtask.task_id === task.id);
+      });
+      setSubtasks(prev => ({ ...prev, ...subtasksByTask }));
+      setTags(prev => (prev.length > 0 ? prev : snapshot.tags));
+    } catch (error) {
+      console.error('Error reading the offline copy:', error);
+    }
+  };
+
+  /**
+   * Shows a task change right away, then sends it. `before` holds the tasks as
+   * they were and `created` the ids of ones the change adds, so a change the
+   * server refuses can be taken back. While the server can't be reached, or
+   * earlier changes still wait, it's queued instead. Resolves to the server's
+   * answer, or null when there is none yet or the change failed. An edit
+   * refused as stale shows the server's copy and goes to `onConflict`.
+   */
+  const runMutation = async <T extends MutationResponse = MutationResponse>(
+    request: Omit<MutationRequest, 'mutationId'>,
+    { before, created = [], apply, onConflict }: {
+      before: Task[];
+      created?: string[];
+      apply: () => void;
+      onConflict?: (current: Task) => void;
+    }
+  ): Promise<T | null> => {
+    const mutationId = crypto.randomUUID();
+    const mutation = { ...request, mutationId };
+    ownMutationsRef.current.set(mutationId, [...before.map(task => task.id), ...created]);
+    apply();
+
+    try {
+      const response = pendingRef.current.length === 0 ? await send(mutation) : null;
+      if (!response) {
+        const queued = await queueMutation(board.id, mutation);
+        pendingRef.current = [...pendingRef.current, queued];
+        setPending(pendingRef.current);
+        return null;
+      }
+
+      const data = await response.json();
+      if (response.status === 409 && data.task && onConflict) {
+        ownMutationsRef.current.delete(mutationId);
+        setTasks(prev => upsertTasks(prev, [data.task]));
+        onConflict(data.task);
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(data.error ?? `Failed to ${request.label}`);
+      }
+      return data as T;
+    } catch (error) {
+      console.error(`Error saving ${request.label}:`, error);
+      ownMutationsRef.current.delete(mutationId);
+      setTasks(prev => upsertTasks(removeTasks(prev, created), before));
+      setErrorToast(`Couldn't save your ${request.label}: ${(error as Error).message}`);
+      return null;
+    }
+  };
+
+  /**
+   * Whether to apply an event. Our own changes are on screen already, and an
+   * echo of one is skipped while a later change of ours to the same tasks
+   * waits for its own, so the screen doesn't step back in between.
+   */
+  const shouldApplyEcho = (mutationId: string | undefined) => {
+    const own = ownMutationsRef.current;
+    const taskIds = mutationId ? own.get(mutationId) : undefined;
+    if (!taskIds) return true;
+
+    const later = [...own.keys()].slice([...own.keys()].indexOf(mutationId!) + 1);
+    own.delete(mutationId!);
+    return !later.some(id => own.get(id)!.some(taskId => taskIds.includes(taskId)));
+  };
+
+  // Replays the queue, then reloads to take in what happened elsewhere meanwhile
+  const syncPending = async () => {
+    if (pendingRef.current.length === 0 || isSyncingRef.current) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await replayMutations(board.id);
+      pendingRef.current = await listMutations(board.id);
+      setPending(pendingRef.current);
+
+      // The rest goes out once they're back, as this mounts again
+      if (result.signedOut) {
+        signInAgain();
+        return;
+      }
+
+      // The server won't echo changes it refused, so they mustn't hold back later echoes
+      [...result.conflicts, ...result.discarded].forEach(({ mutation }) => {
+        ownMutationsRef.current.delete(mutation.mutationId);
+      });
+
+      // Offline edits that clash with someone else's wait on their task for a merge
+      result.conflicts.forEach(({ mutation, current }) => {
+        const { version: _version, scope = 'this', ...updates } = mutation.body as TaskUpdate;
+        setTasks(prev => upsertTasks(prev, [current]));
+        handleConflictChange(current.id, { updates, scope, theirs: current });
+      });
+
+      if (result.discarded.length > 0) {
+        const [first] = result.discarded;
+        setSyncMessage(
+          result.discarded.length === 1
+            ? `An offline ${first!.mutation.label} was dropped: ${first!.reason}`
+            : `${result.discarded.length} offline changes were dropped, e.g. an ${first!.mutation.label}: ${first!.reason}`
+        );
+      } else if (result.conflicts.length > 0) {
+        setSyncMessage(
+          result.conflicts.length === 1
+            ? 'An offline edit clashes with a change made elsewhere; choose which to keep on its task'
+            : `${result.conflicts.length} offline edits clash with changes made elsewhere; choose which to keep on their tasks`
+        );
+      }
+      if (result.sent > 0 || result.discarded.length > 0) {
+        fetchAllTasks();
+      }
+    } catch (error) {
+      console.error('Error replaying queued changes:', error);
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  // Loads the user's tasks on every day; the ones outside the week on screen
+  // join the same lists, so socket messages keep them current too
+  const fetchMyTasks = async () => {
+    try {
+      const response = await fetch(`${api}/tasks?assignee=${user.id}`);
+      const data = await response.json();
+
+      setTasks(prev => upsertTasks(prev, data.tasks));
+      mergeSeries(data.series);
+
+      const subtasksByTask: { [taskId: string]: Subtask[] } = {};
+      data.tasks.forEach((task: Task) => {
+        subtasksByTask[task.id] = data.subtasks.filter((subtask: Subtask) => subtask.task_id === task.id);
+      });
+      setSubtasks(prev => ({ ...prev, ...subtasksByTask }));
+    } catch (error) {
+      console.error('Error fetching my tasks:', error);
+    }
+  };
+
+  const mergeSeries = (changed: TaskSeries[]) => {
+    setSeries(prev => {
+      const next = { ...prev };
+      changed.forEach(s => {
+        next[s.id] = s;
+      });
+      return next;
+    });
+  };
+
   const handleWebSocketMessage = (message: WebSocketMessage) => {
     switch (message.type) {
+      case 'subscribed':
+        if (message.epoch && message.seq !== undefined) {
+          positionRef.current = { epoch: message.epoch, seq: message.seq };
+          isCatchingUpRef.current = false;
+        }
+        setSocketId(message.socketId ?? null);
+        break;
+      case 'presence_changed':
+        setPresence(message.presence ?? []);
+        break;
+      // Sent instead of the missed events when the server no longer has them
+      case 'snapshot': {
+        const snapshotTasks = message.tasks ?? [];
+        setTasks(upsertTasks({}, snapshotTasks));
+        setSeries(Object.fromEntries((message.series ?? []).map(s => [s.id, s])));
+        const subtasksByTask: { [taskId: string]: Subtask[] } = {};
+        snapshotTasks.forEach(task => {
+          subtasksByTask[task.id] = (message.subtasks ?? []).filter(subtask => subtask.task_id === task.id);
+        });
+        setSubtasks(subtasksByTask);
+        setTags(sortTags(message.tags ?? []));
+        break;
+      }
       case 'task_created':
         if (message.task) {
-          setTasks(prev => ({
-            ...prev,
-            [message.task!.day]: [...(prev[message.task!.day] || []), message.task!]
-          }));
+          // Our own offline task may be on screen already
+          const { task } = message;
+          setTasks(prev => upsertTasks(prev, [task]));
         }
         break;
       case 'task_updated':
         if (message.task) {
           setTasks(prev => {
             const newTasks = { ...prev };
-            DAYS.forEach(day => {
+            Object.keys(newTasks).forEach(day => {
               newTasks[day] = newTasks[day]?.map(task => 
                 task.id === message.task!.id ? message.task! : task
               ) || [];
@@ -101,11 +680,19 @@ export function TodoApp() {
         if (message.id) {
           setTasks(prev => {
             const newTasks = { ...prev };
-            DAYS.forEach(day => {
+            Object.keys(newTasks).forEach(day => {
               newTasks[day] = newTasks[day]?.filter(task => task.id !== message.id) || [];
             });
             return newTasks;
           });
+          setActiveTaskId(prev => (prev === message.id ? null : prev));
+        }
+        break;
+      case 'task_restored':
+        if (message.task) {
+          const { task } = message;
+          setTasks(prev => upsertTasks(prev, [task]));
+          setSubtasks(prev => ({ ...prev, [task.id]: message.subtasks ?? [] }));
         }
         break;
       case 'tasks_reordered':
@@ -118,87 +705,666 @@ export function TodoApp() {
           }));
         }
         break;
+      case 'task_moved':
+        if (message.task && message.from && message.to) {
+          const { task: moved, from, to } = message;
+          setTasks(prev => {
+            const byId = new Map(
+              [...(prev[from.day] || []), ...(prev[to.day] || [])].map(task => [task.id, task])
+            );
+            byId.set(moved.id, moved);
+            const pick = (ids: string[]) => ids.map(id => byId.get(id)).filter(Boolean) as Task[];
+            return { ...prev, [from.day]: pick(from.taskIds), [to.day]: pick(to.taskIds) };
+          });
+        }
+        break;
+      case 'series_changed': {
+        const deletedIds = new Set(message.deletedIds ?? []);
+        setTasks(prev => {
+          const remaining: TasksByDay = {};
+          Object.keys(prev).forEach(day => {
+            remaining[day] = prev[day]!.filter(task => !deletedIds.has(task.id));
+          });
+          return upsertTasks(remaining, message.tasks ?? []);
+        });
+        mergeSeries(message.series ?? []);
+        break;
+      }
+      // A batch comes with the order of each day it touched, like an undo
+      case 'tasks_batch':
+      case 'activity_undone':
+      case 'activity_redone': {
+        const deletedIds = new Set(message.deletedIds ?? []);
+        setTasks(prev => {
+          const remaining: TasksByDay = {};
+          Object.keys(prev).forEach(day => {
+            remaining[day] = prev[day]!.filter(task => !deletedIds.has(task.id));
+          });
+          const next = upsertTasks(remaining, message.tasks ?? []);
+
+          // Priorities of tasks it didn't touch may be stale here, so take the server's order
+          const byId = new Map(Object.values(next).flat().map(task => [task.id, task]));
+          (message.order ?? []).forEach(({ day, taskIds }) => {
+            next[day] = taskIds.map(id => byId.get(id)).filter(Boolean) as Task[];
+          });
+          return next;
+        });
+        mergeSeries(message.series ?? []);
+
+        // Tasks brought back come with their checklists
+        const restored = message.subtasks ?? [];
+        if (restored.length > 0) {
+          setSubtasks(prev => {
+            const next = { ...prev };
+            new Set(restored.map(subtask => subtask.task_id)).forEach(taskId => {
+              next[taskId] = restored
+                .filter(subtask => subtask.task_id === taskId)
+                .sort((a, b) => a.position - b.position);
+            });
+            return next;
+          });
+        }
+        setActiveTaskId(prev => (prev && deletedIds.has(prev) ? null : prev));
+        break;
+      }
+      case 'subtask_created':
+        if (message.subtask) {
+          const { subtask } = message;
+          setSubtasks(prev => ({
+            ...prev,
+            [subtask.task_id]: [...(prev[subtask.task_id] || []), subtask]
+          }));
+        }
+        break;
+      case 'subtask_updated':
+        if (message.subtask) {
+          const { subtask } = message;
+          setSubtasks(prev => ({
+            ...prev,
+            [subtask.task_id]: (prev[subtask.task_id] || []).map(s => s.id === subtask.id ? subtask : s)
+          }));
+        }
+        break;
+      case 'subtask_deleted':
+        if (message.taskId && message.id) {
+          const { taskId, id } = message;
+          setSubtasks(prev => ({
+            ...prev,
+            [taskId]: (prev[taskId] || []).filter(s => s.id !== id)
+          }));
+        }
+        break;
+      case 'subtasks_reordered':
+        if (message.taskId && message.subtaskIds) {
+          const { taskId, subtaskIds } = message;
+          setSubtasks(prev => ({
+            ...prev,
+            [taskId]: subtaskIds.map(id => prev[taskId]?.find(s => s.id === id)!).filter(Boolean)
+          }));
+        }
+        break;
+      case 'tag_created':
+        if (message.tag) {
+          const { tag } = message;
+          setTags(prev => sortTags([...prev.filter(t => t.id !== tag.id), tag]));
+        }
+        break;
+      case 'tag_updated':
+        if (message.tag) {
+          const { tag } = message;
+          setTags(prev => sortTags(prev.map(t => t.id === tag.id ? tag : t)));
+        }
+        break;
+      case 'tag_deleted':
+        if (message.id) {
+          const { id } = message;
+          setTags(prev => prev.filter(tag => tag.id !== id));
+          setTasks(prev => {
+            const newTasks: TasksByDay = {};
+            Object.keys(prev).forEach(day => {
+              newTasks[day] = prev[day]!.map(task =>
+                task.tag_ids?.includes(id)
+                  ? { ...task, tag_ids: task.tag_ids.filter(tagId => tagId !== id) }
+                  : task
+              );
+            });
+            return newTasks;
+          });
+          setTagFilter(prev => (prev === id ? null : prev));
+        }
+        break;
+      case 'timer_updated':
+        if (message.timer) {
+          applyTimer(message.timer);
+        }
+        break;
+      case 'session_completed':
+        if (message.session) {
+          notifySessionCompleted(message.session);
+        }
+        if (message.session?.task_id && message.session.type === 'work') {
+          const { task_id, duration, focused_seconds } = message.session;
+          setFocusSummaries(prev => {
+            const current = prev[task_id];
+            return {
+              ...prev,
+              [task_id]: {
+                task_id,
+                completed_pomodoros: (current?.completed_pomodoros ?? 0) + 1,
+                focused_seconds: (current?.focused_seconds ?? 0) + (focused_seconds ?? duration),
+              },
+            };
+          });
+        }
+        break;
+      case 'preferences_updated':
+        if (message.preferences) {
+          setPreferences(message.preferences);
+        }
+        break;
+      // A rename or a change of our role
+      case 'board_updated':
+      case 'members_changed':
+        refreshBoard();
+        break;
+      case 'board_access_revoked':
+        if (message.boardId === board.id) {
+          navigate('/', { replace: true });
+        }
+        break;
+    }
+  };
+
+  const addTask = async (
+    title: string,
+    description: string,
+    day: string,
+    recurrence: RecurrenceRule | null = null,
+    tagIds: string[] = [],
+    assigneeId: string | null = null
+  ) => {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+    // A repeating task comes back with its first occurrences
+    const data = await runMutation<MutationResponse & { tasks?: Task[] }>(
+      {
+        method: 'POST',
+        path: `${api}/tasks`,
+        body: { id, title, description, day, recurrence, tag_ids: tagIds, assignee_id: assigneeId },
+        taskId: id,
+        label: 'add',
+      },
+      {
+        before: [],
+        created: [id],
+        apply: () => setTasks(prev => upsertTasks(prev, [{
+          id,
+          title,
+          description: description || null,
+          day,
+          priority: 1,
+          completed: false,
+          assignee_id: assigneeId,
+          tag_ids: tagIds,
+          created_at: now,
+          updated_at: now,
+        }])),
+      }
+    );
+    if (!data) return;
+
+    // A repeating task's occurrences get ids of the server's own
+    if (recurrence && data.tasks) {
+      const { tasks: occurrences } = data;
+      setTasks(prev => upsertTasks(removeTasks(prev, [id]), occurrences));
+    }
+    pushUndo(data.activityId, 'add');
+  };
+
+  const updateTask = async (
+    id: string,
+    updates: TaskUpdate,
+    scope: SeriesScope = 'this',
+    onConflict?: (current: Task) => void
+  ) => {
+    const task = findTask(id);
+    const label = updates.completed !== undefined ? 'completion' : 'edit';
+    const { recurrence: _recurrence, scope: _scope, version: _version, ...fields } = updates;
+    // Our copy is what the edit was made on unless a newer one came in meanwhile
+    const base = task && updates.version !== undefined && updates.version === task.version
+      ? { title: task.title, description: task.description ?? null }
+      : undefined;
+    const data = await runMutation(
+      { method: 'PUT', path: `${api}/tasks/${id}`, body: { ...updates, scope }, taskId: id, label, base },
+      {
+        before: task ? [task] : [],
+        apply: () => {
+          if (task) {
+            setTasks(prev => upsertTasks(prev, [{ ...task, ...fields, updated_at: new Date().toISOString() }]));
+          }
+        },
+        onConflict,
+      }
+    );
+    if (data) {
+      pushUndo(data.activityId, label);
+    }
+  };
+
+  const deleteTask = async (id: string, scope: SeriesScope = 'this') => {
+    const task = findTask(id);
+    const data = await runMutation(
+      { method: 'DELETE', path: `${api}/tasks/${id}?scope=${scope}`, taskId: id, label: 'delete' },
+      {
+        before: task ? [task] : [],
+        apply: () => setTasks(prev => removeTasks(prev, [id])),
+      }
+    );
+    if (data) {
+      pushUndo(data.activityId, 'delete');
+    }
+  };
+
+  const reorderTasks = async (day: string, taskIds: string[]) => {
+    const data = await runMutation(
+      { method: 'POST', path: `${api}/tasks/reorder`, body: { day, taskIds }, taskId: taskIds[0] ?? '', label: 'reorder' },
+      {
+        before: tasks[day] || [],
+        apply: () => setTasks(prev => placeTasks(prev, day, taskIds)),
+      }
+    );
+    if (data) {
+      pushUndo(data.activityId, 'reorder');
+    }
+  };
+
+  const moveTask = async (id: string, day: string, index?: number) => {
+    const task = findTask(id);
+    if (!task) return;
+
+    const taskIds = (tasks[day] || []).map(t => t.id).filter(taskId => taskId !== id);
+    taskIds.splice(index ?? taskIds.length, 0, id);
+    const data = await runMutation(
+      { method: 'POST', path: `${api}/tasks/${id}/move`, body: { day, index }, taskId: id, label: 'move' },
+      {
+        before: [...(tasks[task.day] || []), ...(task.day === day ? [] : tasks[day] || [])],
+        apply: () => setTasks(prev => placeTasks(upsertTasks(prev, [{ ...task, day }]), day, taskIds)),
+      }
+    );
+    if (data) {
+      pushUndo(data.activityId, 'move');
+    }
+  };
+
+  // Changes several tasks in one request; they're undone together too
+  const runBatch = async (operations: TaskBatchOperation[], label: string) => {
+    if (operations.length === 0) return;
+
+    const days = new Set(operations.flatMap(operation => {
+      const day = findTask(operation.id)?.day;
+      return [...(day ? [day] : []), ...(operation.op === 'move' ? [operation.day] : [])];
+    }));
+    const data = await runMutation(
+      { method: 'POST', path: `${api}/tasks/batch`, body: { operations }, taskId: operations[0]!.id, label },
+      {
+        before: [...days].flatMap(day => tasks[day] || []),
+        apply: () => setTasks(prev => applyOperations(prev, operations)),
+      }
+    );
+    if (data) {
+      pushUndo(data.activityId, label);
+    }
+  };
+
+  // Only operations that changed something are logged, so activityId may be null
+  const pushUndo = (activityId: string | null, label: string) => {
+    if (!activityId) return;
+    setUndoStack(prev => [...prev, { activityId, label }].slice(-MAX_UNDO));
+    setRedoStack([]);
+  };
+
+  // Undoes or redoes the latest entry of one stack and moves it onto the other
+  const revert = async (direction: 'undo' | 'redo') => {
+    const [from, setFrom, setTo] = direction === 'undo'
+      ? [undoStack, setUndoStack, setRedoStack]
+      : [redoStack, setRedoStack, setUndoStack];
+    const entry = from.at(-1);
+    if (!entry || isRevertingRef.current) return;
+
+    isRevertingRef.current = true;
+    setFrom(prev => prev.slice(0, -1));
+    try {
+      const response = await fetch(`${api}/activity/${entry.activityId}/${direction}`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error ?? `Failed to ${direction}`);
+      }
+
+      setTo(prev => [...prev, entry]);
+      setUndoMessage(null);
+
+      // Tasks will be restored via WebSocket message
+    } catch (error) {
+      console.error(`Error running ${direction}:`, error);
+      // The entry is dropped; something else has changed those tasks since
+      setUndoMessage(`Can't ${direction} ${entry.label}: ${(error as Error).message}`);
+      // Fallback: refresh tasks
+      fetchAllTasks();
+    } finally {
+      isRevertingRef.current = false;
+    }
+  };
+
+  useEffect(() => {
+    if (!undoMessage) return;
+    const timeout = setTimeout(() => setUndoMessage(null), UNDO_MESSAGE_DURATION);
+    return () => clearTimeout(timeout);
+  }, [undoMessage]);
+
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes, except in text
+  // fields, which keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const isTyping = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if (isTyping || !(e.metaKey || e.ctrlKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        revert('undo');
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        revert('redo');
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undoStack, redoStack]);
+
+  const createTag = async (name: string, color: string) => {
+    try {
+      const response = await fetch(`${api}/tags`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, color }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to create tag');
+      }
+
+      // Tag will be added via WebSocket message
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      // Fallback: refresh tags
+      fetchTags();
+    }
+  };
+
+  const deleteTag = async (id: string) => {
+    try {
+      const response = await fetch(`${api}/tags/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete tag');
+      }
+
+      // Tag will be removed via WebSocket message
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      // Fallback: refresh tags
+      fetchTags();
     }
   };
 
-  const addTask = async (title: string, description: string, day: string) => {
+  const addSubtask = async (taskId: string, title: string) => {
     try {
-      const response = await fetch('/api/tasks', {
+      const response = await fetch(`${api}/tasks/${taskId}/subtasks`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ title, description, day }),
+        body: JSON.stringify({ title }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to create task');
+        throw new Error('Failed to create subtask');
       }
 
-      // Task will be added via WebSocket message
+      // Subtask will be added via WebSocket message
     } catch (error) {
-      console.error('Error adding task:', error);
+      console.error('Error adding subtask:', error);
       // Fallback: refresh tasks
       fetchAllTasks();
     }
   };
 
-  const updateTask = async (id: string, updates: Partial<Task>) => {
+  const updateSubtask = async (
+    taskId: string,
+    id: string,
+    updates: SubtaskUpdate
+  ) => {
     try {
-      const response = await fetch(`/api/tasks/${id}`, {
+      const response = await fetch(`${api}/tasks/${taskId}/subtasks/${id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(updates),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to update task');
+        throw new Error('Failed to update subtask');
       }
 
-      // Task will be updated via WebSocket message
+      // Subtask (and a task it completes) will be updated via WebSocket message
     } catch (error) {
-      console.error('Error updating task:', error);
+      console.error('Error updating subtask:', error);
       // Fallback: refresh tasks
       fetchAllTasks();
     }
   };
 
-  const deleteTask = async (id: string) => {
+  const deleteSubtask = async (taskId: string, id: string) => {
     try {
-      const response = await fetch(`/api/tasks/${id}`, {
+      const response = await fetch(`${api}/tasks/${taskId}/subtasks/${id}`, {
         method: 'DELETE',
       });
 
       if (!response.ok) {
-        throw new Error('Failed to delete task');
+        throw new Error('Failed to delete subtask');
       }
 
-      // Task will be deleted via WebSocket message
+      // Subtask will be deleted via WebSocket message
     } catch (error) {
-      console.error('Error deleting task:', error);
+      console.error('Error deleting subtask:', error);
       // Fallback: refresh tasks
       fetchAllTasks();
     }
   };
 
-  const reorderTasks = async (day: string, taskIds: string[]) => {
+  const reorderSubtasks = async (taskId: string, subtaskIds: string[]) => {
     try {
-      const response = await fetch('/api/tasks/reorder', {
+      const response = await fetch(`${api}/tasks/${taskId}/subtasks/reorder`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ day, taskIds }),
+        body: JSON.stringify({ subtaskIds }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to reorder tasks');
+        throw new Error('Failed to reorder subtasks');
       }
 
-      // Tasks will be reordered via WebSocket message
+      // Subtasks will be reordered via WebSocket message
     } catch (error) {
-      console.error('Error reordering tasks:', error);
+      console.error('Error reordering subtasks:', error);
       // Fallback: refresh tasks
       fetchAllTasks();
     }
   };
 
+  const clearDayTabTimeout = () => {
+    if (dayTabTimeoutRef.current) {
+      clearTimeout(dayTabTimeoutRef.current);
+      dayTabTimeoutRef.current = null;
+    }
+  };
+
+  // Dragging a task over a day tab opens that day after a moment, so it can
+  // be dropped at a position in its list; dropping on the tab appends it
+  const handleDayTabDragOver = (e: React.DragEvent, day: string) => {
+    if (!e.dataTransfer.types.includes(TASK_DRAG_TYPE)) return;
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    if (dropTargetDay !== day) {
+      setDropTargetDay(day);
+      clearDayTabTimeout();
+      dayTabTimeoutRef.current = setTimeout(() => setSelectedDay(day), DAY_TAB_OPEN_DELAY);
+    }
+  };
+
+  const handleDayTabDragLeave = () => {
+    clearDayTabTimeout();
+    setDropTargetDay(null);
+  };
+
+  const handleDayTabDrop = (e: React.DragEvent, day: string) => {
+    e.preventDefault();
+    clearDayTabTimeout();
+    setDropTargetDay(null);
+
+    const taskId = e.dataTransfer.getData(TASK_DRAG_TYPE);
+    if (taskId) {
+      moveTask(taskId, day);
+    }
+  };
+
+  const notifySessionCompleted = (session: PomodoroSession) => {
+    if (
+      preferencesRef.current?.notifications_enabled &&
+      'Notification' in window &&
+      Notification.permission === 'granted'
+    ) {
+      new Notification('Pomodoro Session Complete!', {
+        body: `${session.type.replace('_', ' ')} session finished.`,
+        icon: '/favicon.ico',
+        // Every open tab gets the message; the tag collapses them into one
+        tag: session.id,
+      });
+    }
+  };
+
+  const runTimerCommand = async (command: TimerCommand, payload: TimerCommandPayload = {}) => {
+    try {
+      const response = await fetch(`/api/pomodoro/timer/${command}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to ${command} timer`);
+      }
+
+      // Timer will be updated via WebSocket message
+    } catch (error) {
+      console.error('Error running timer command:', error);
+      // Fallback: refresh timer
+      fetchTimer();
+    }
+  };
+
+  const updatePreferences = async (updates: TimerPreferencesUpdate) => {
+    try {
+      const response = await fetch('/api/pomodoro/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update preferences');
+      }
+
+      // Preferences will be updated via WebSocket message
+    } catch (error) {
+      console.error('Error updating timer preferences:', error);
+      // Fallback: refresh preferences
+      fetchPreferences();
+    }
+  };
+
+  const goToWeek = (day: string) => {
+    setWeekStart(startOfWeek(day));
+    setSelectedDay(day);
+  };
+
+  // The day's tasks that pass the tag filter and, in "My tasks", are assigned to the user
+  const visibleTasks = (day: string) => {
+    return (tasks[day] || []).filter(task =>
+      (!tagFilter || task.tag_ids?.includes(tagFilter)) &&
+      (view === 'week' || task.assignee_id === user.id)
+    );
+  };
+
+  // With a filter on, the list only shows some of the day's tasks; reordering
+  // them keeps the hidden ones in place
+  const reorderVisibleTasks = (day: string, visibleIds: string[]) => {
+    const visible = new Set(visibleIds);
+    const queue = [...visibleIds];
+    const taskIds = (tasks[day] || []).map(task => (visible.has(task.id) ? queue.shift()! : task.id));
+    reorderTasks(day, taskIds);
+  };
+
+  // Turns a drop position in the filtered list into one in the whole day
+  const moveIntoVisibleTasks = (taskId: string, day: string, index: number) => {
+    const target = visibleTasks(day)[index];
+    const dayTasks = tasks[day] || [];
+    moveTask(taskId, day, target ? dayTasks.indexOf(target) : dayTasks.length);
+  };
+
+  const jumpToTask = (task: Task) => {
+    setView('week');
+    goToWeek(task.day);
+    if (tagFilter && !task.tag_ids?.includes(tagFilter)) {
+      setTagFilter(null);
+    }
+    setScrollToTaskId(task.id);
+  };
+
+  const myTaskDays = Object.keys(tasks).sort().filter(day => visibleTasks(day).length > 0);
+
+  const findTask = (id: string) => Object.values(tasks).flat().find(task => task.id === id) ?? null;
+
+  const activeTask = activeTaskId ? findTask(activeTaskId) : null;
+
+  const pendingTaskIds = new Set(pending.map(mutation => mutation.taskId));
+
+  // Everyone else on the board; our other tabs count too
+  const others = presence.filter(entry => entry.socketId !== socketId);
+  const editorsByTask: { [taskId: string]: Presence[] } = {};
+  new Set(others.map(entry => entry.editingTaskId)).forEach(taskId => {
+    if (taskId) editorsByTask[taskId] = editorsOf(others, taskId);
+  });
+
+  // A null conflict means the task's merge prompt was resolved
+  const handleConflictChange = (taskId: string, conflict: EditConflict | null) => {
+    setConflicts(prev => {
+      const { [taskId]: _resolved, ...rest } = prev;
+      return conflict ? { ...rest, [taskId]: conflict } : rest;
+    });
+  };
+
+  // Only one task is edited at a time here, so the latest to start or stop wins
+  const handleEditingChange = (taskId: string, isEditing: boolean) => {
+    setEditingTaskId(prev => (isEditing ? taskId : prev === taskId ? null : prev));
+  };
+
   if (loading) {
     return <div className="loading">Loading tasks...</div>;
   }
@@ -207,48 +1373,226 @@ export function TodoApp() {
     <div className="todo-app">
       <header className="app-header">
         <h1>Weekly Todo Manager</h1>
-        <PomodoroTimer />
+        <BoardSwitcher />
+        <nav className="app-nav">
+          <Link to={`/stats?board=${board.id}`}>📊 Stats</Link>
+          <Link to={`/boards/${board.id}/trash`}>🗑 Trash</Link>
+        </nav>
+        <SearchBox onSelect={jumpToTask} />
+        {canEdit && (
+          <div className="undo-controls">
+            <button
+              className="btn-small btn-secondary"
+              onClick={() => revert('undo')}
+              disabled={undoStack.length === 0}
+              title={undoStack.length > 0 ? `Undo ${undoStack.at(-1)!.label} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              ↶
+            </button>
+            <button
+              className="btn-small btn-secondary"
+              onClick={() => revert('redo')}
+              disabled={redoStack.length === 0}
+              title={redoStack.length > 0 ? `Redo ${redoStack.at(-1)!.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              ↷
+            </button>
+            {undoMessage && <span className="undo-message">{undoMessage}</span>}
+          </div>
+        )}
+        {preferences && timer && (
+          <PomodoroTimer
+            timer={timer}
+            onCommand={runTimerCommand}
+            preferences={preferences}
+            onUpdatePreferences={updatePreferences}
+            activeTask={activeTask}
+            onClearActiveTask={() => setActiveTaskId(null)}
+          />
+        )}
+        <div className="account">
+          <span className="account-name" title={user.email}>{user.name}</span>
+          <button className="btn-small btn-secondary" onClick={logOut}>
+            Log out
+          </button>
+        </div>
         <div className="connection-status">
           {ws ? (
             <span className="connected">🟢 Connected</span>
           ) : (
             <span className="disconnected">🔴 Disconnected</span>
           )}
+          {pending.length > 0 && (
+            <span className="sync-status" title="Saved on this device until the server can be reached">
+              {isSyncing ? '🔄 Syncing' : '⏳'} {pending.length} {pending.length === 1 ? 'change' : 'changes'} pending
+            </span>
+          )}
+          {syncMessage && <span className="sync-message">{syncMessage}</span>}
         </div>
       </header>
 
       <main className="app-main">
-        <div className="day-selector">
-          {DAYS.map((day, index) => (
-            <button
-              key={day}
-              className={`day-tab ${selectedDay === day ? 'active' : ''}`}
-              onClick={() => setSelectedDay(day)}
-            >
-              {DAY_NAMES[index]}
-              {tasks[day]?.length > 0 && (
-                <span className="task-count">{tasks[day].length}</span>
-              )}
-            </button>
-          ))}
+        <div className="view-toggle">
+          <button
+            className={`btn-small ${view === 'week' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setView('week')}
+          >
+            Week
+          </button>
+          <button
+            className={`btn-small ${view === 'mine' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setView('mine')}
+          >
+            My tasks
+          </button>
         </div>
 
-        <div className="day-content">
-          <div className="day-header">
-            <h2>{DAY_NAMES[DAYS.indexOf(selectedDay)]}</h2>
-            <AddTaskForm 
-              onAdd={(title, description) => addTask(title, description, selectedDay)} 
-            />
+        {view === 'week' && (
+          <div className="week-navigator">
+            <button className="btn-secondary" onClick={() => goToWeek(addDays(weekStart, -7))}>
+              ‹ Previous
+            </button>
+            <button className="btn-secondary" onClick={() => goToWeek(today())}>
+              Today
+            </button>
+            <button className="btn-secondary" onClick={() => goToWeek(addDays(weekStart, 7))}>
+              Next ›
+            </button>
+            <span className="week-range">
+              {formatDay(days[0]!, { month: 'short', day: 'numeric' })}
+              {' – '}
+              {formatDay(days[6]!, { month: 'short', day: 'numeric', year: 'numeric' })}
+            </span>
           </div>
+        )}
 
-          <TaskList
-            tasks={tasks[selectedDay] || []}
-            onUpdate={updateTask}
-            onDelete={deleteTask}
-            onReorder={(taskIds) => reorderTasks(selectedDay, taskIds)}
-          />
-        </div>
+        <TagFilterBar
+          tags={tags}
+          activeTagId={tagFilter}
+          onSelect={setTagFilter}
+          onCreate={createTag}
+          onDelete={deleteTag}
+          readOnly={!canEdit}
+        />
+
+        {view === 'mine' ? (
+          <div className="my-tasks">
+            {myTaskDays.length === 0 ? (
+              <div className="empty-state">
+                <p>Nothing is assigned to you on this board.</p>
+              </div>
+            ) : myTaskDays.map(day => (
+              <section key={day} className="my-tasks-day">
+                <h2>{formatDay(day, { weekday: 'long', month: 'long', day: 'numeric' })}</h2>
+                <TaskList
+                  tasks={visibleTasks(day)}
+                  onUpdate={updateTask}
+                  onDelete={deleteTask}
+                  onReorder={() => {}}
+                  onMove={() => {}}
+                  onBatch={runBatch}
+                  activeTaskId={activeTaskId}
+                  focusSummaries={focusSummaries}
+                  pendingTaskIds={pendingTaskIds}
+                  conflicts={conflicts}
+                  onConflictChange={handleConflictChange}
+                  editorsByTask={editorsByTask}
+                  onEditingChange={handleEditingChange}
+                  onFocus={setActiveTaskId}
+                  series={series}
+                  tags={tags}
+                  subtasks={subtasks}
+                  onAddSubtask={addSubtask}
+                  onUpdateSubtask={updateSubtask}
+                  onDeleteSubtask={deleteSubtask}
+                  onReorderSubtasks={reorderSubtasks}
+                  readOnly={!canEdit}
+                  sortable={false}
+                />
+              </section>
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="day-selector">
+              {days.map(day => (
+                <button
+                  key={day}
+                  className={`day-tab ${selectedDay === day ? 'active' : ''} ${day === today() ? 'today' : ''} ${dropTargetDay === day ? 'drop-target' : ''}`}
+                  onClick={() => setSelectedDay(day)}
+                  onDragOver={(e) => handleDayTabDragOver(e, day)}
+                  onDragLeave={handleDayTabDragLeave}
+                  onDrop={(e) => handleDayTabDrop(e, day)}
+                >
+                  {formatDay(day, { weekday: 'short' })}
+                  <span className="day-date">{formatDay(day, { month: 'short', day: 'numeric' })}</span>
+                  {visibleTasks(day).length > 0 && (
+                    <span className="task-count">{visibleTasks(day).length}</span>
+                  )}
+                  {viewersOf(others, day).length > 0 && (
+                    <span className="day-viewers">
+                      {viewersOf(others, day).map(viewer => (
+                        <span key={viewer.userId} className="viewer-chip" title={`${viewer.name} is looking at this day`}>
+                          {initials(viewer.name)}
+                        </span>
+                      ))}
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            <div className="day-content">
+              <div className="day-header">
+                <h2>{formatDay(selectedDay, { weekday: 'long', month: 'long', day: 'numeric' })}</h2>
+                {canEdit && (
+                  <AddTaskForm 
+                    onAdd={(title, description, recurrence, tagIds, assigneeId) =>
+                      addTask(title, description, selectedDay, recurrence, tagIds, assigneeId)
+                    }
+                    tags={tags}
+                    members={members}
+                  />
+                )}
+              </div>
+
+              <TaskList
+                tasks={visibleTasks(selectedDay)}
+                onUpdate={updateTask}
+                onDelete={deleteTask}
+                onReorder={(taskIds) => reorderVisibleTasks(selectedDay, taskIds)}
+                onMove={(taskId, index) => moveIntoVisibleTasks(taskId, selectedDay, index)}
+                onBatch={runBatch}
+                activeTaskId={activeTaskId}
+                focusSummaries={focusSummaries}
+                pendingTaskIds={pendingTaskIds}
+                conflicts={conflicts}
+                onConflictChange={handleConflictChange}
+                editorsByTask={editorsByTask}
+                onEditingChange={handleEditingChange}
+                onFocus={setActiveTaskId}
+                series={series}
+                tags={tags}
+                subtasks={subtasks}
+                onAddSubtask={addSubtask}
+                onUpdateSubtask={updateSubtask}
+                onDeleteSubtask={deleteSubtask}
+                onReorderSubtasks={reorderSubtasks}
+                readOnly={!canEdit}
+              />
+            </div>
+          </>
+        )}
       </main>
+
+      {errorToast && (
+        <div className="toast error" role="alert">
+          {errorToast}
+          <button className="toast-close" onClick={() => setErrorToast(null)} title="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
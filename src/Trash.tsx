@@ -0,0 +1,159 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router";
+import type { Task } from "./database";
+import { parseISODate } from "./dates";
+import { useBoard } from "./components/RequireBoard";
+import "./index.css";
+
+const formatDeletedAt = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export function Trash() {
+  const { board, api, canEdit } = useBoard();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [board.id]);
+
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch(`${api}/trash`);
+      const data = await response.json();
+      setTasks(data.tasks);
+      setRetentionDays(data.retentionDays);
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreTask = async (id: string) => {
+    try {
+      const response = await fetch(`${api}/trash/${id}/restore`, { method: 'POST' });
+
+      if (!response.ok) {
+        throw new Error('Failed to restore task');
+      }
+
+      setTasks(prev => prev.filter(task => task.id !== id));
+    } catch (error) {
+      console.error('Error restoring task:', error);
+      // Fallback: refresh trash
+      fetchTrash();
+    }
+  };
+
+  const purgeTask = async (id: string) => {
+    try {
+      const response = await fetch(`${api}/trash/${id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete task');
+      }
+
+      setTasks(prev => prev.filter(task => task.id !== id));
+    } catch (error) {
+      console.error('Error deleting task permanently:', error);
+      // Fallback: refresh trash
+      fetchTrash();
+    }
+  };
+
+  const emptyTrash = async () => {
+    try {
+      const response = await fetch(`${api}/trash`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to empty trash');
+      }
+
+      const data = await response.json();
+      const purged = new Set<string>(data.purgedIds);
+      setTasks(prev => prev.filter(task => !purged.has(task.id)));
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      // Fallback: refresh trash
+      fetchTrash();
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading trash...</div>;
+  }
+
+  return (
+    <div className="todo-app">
+      <header className="app-header">
+        <h1>Trash · {board.name}</h1>
+        <nav className="app-nav">
+          <Link to={`/boards/${board.id}`}>← Back to tasks</Link>
+        </nav>
+      </header>
+
+      <main className="app-main">
+        <section className="stats-section trash-section">
+          <div className="trash-header">
+            <p className="stats-empty">
+              {retentionDays !== null &&
+                `Deleted tasks are kept for ${retentionDays} day${retentionDays === 1 ? '' : 's'}, then removed for good.`}
+            </p>
+            <button className="btn-small btn-danger" onClick={emptyTrash} disabled={!canEdit || tasks.length === 0}>
+              Empty trash
+            </button>
+          </div>
+
+          {tasks.length === 0 ? (
+            <div className="empty-state">
+              <p>The trash is empty.</p>
+            </div>
+          ) : (
+            <ul className="trash-list">
+              {tasks.map(task => (
+                <li key={task.id} className="trash-item">
+                  <div className="trash-item-content">
+                    <span className="trash-item-title">{task.title}</span>
+                    <span className="trash-item-meta">
+                      {parseISODate(task.day).toLocaleDateString('en-US', {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric',
+                      })}
+                      {task.deleted_at && ` · deleted ${formatDeletedAt(task.deleted_at)}`}
+                    </span>
+                  </div>
+                  {canEdit && (
+                    <div className="task-actions">
+                      <button
+                        className="btn-small btn-secondary"
+                        onClick={() => restoreTask(task.id)}
+                        title="Put the task back on its day"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        className="btn-small btn-danger"
+                        onClick={() => purgeTask(task.id)}
+                        title="Delete for good"
+                      >
+                        Delete forever
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
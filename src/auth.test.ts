@@ -0,0 +1,37 @@
+import { describe, expect, mock, test } from "bun:test";
+import { TodoDatabase } from "./database";
+
+// Sessions go in a throwaway database rather than todos.db
+const accounts = new TodoDatabase(":memory:");
+mock.module("./database", () => ({ db: accounts, TodoDatabase }));
+const { endSession, getSession, startSession } = await import("./auth");
+
+const withCookie = (setCookie: string) =>
+  new Request("http://localhost/", { headers: { cookie: setCookie.split(";")[0]! } });
+
+describe("sessions", () => {
+  const user = accounts.createUser({ email: "ada@example.com", name: "Ada", password_hash: "x" });
+
+  test("sign in with an HttpOnly session cookie", () => {
+    const setCookie = startSession(user);
+    expect(setCookie).toStartWith("session=");
+    expect(setCookie).toContain("HttpOnly");
+
+    const session = getSession(withCookie(setCookie));
+    expect(session?.user).toEqual(user);
+    expect(session?.db.getBoards()).toHaveLength(1);
+  });
+
+  test("ignore a missing or unknown cookie", () => {
+    expect(getSession(new Request("http://localhost/"))).toBeNull();
+    expect(getSession(withCookie("session=made-up"))).toBeNull();
+  });
+
+  test("sign out and clear the cookie", () => {
+    const request = withCookie(startSession(user));
+
+    const cleared = endSession(request);
+    expect(cleared).toStartWith("session=;");
+    expect(getSession(request)).toBeNull();
+  });
+});
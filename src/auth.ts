@@ -0,0 +1,57 @@
+/**
+ * Sign-in sessions. A session is a random token kept in an HttpOnly cookie;
+ * the database only stores a hash of it, so a copy of the file can't be used
+ * to sign in as anyone.
+ */
+import { db } from "./database";
+import type { TodoDatabase, User } from "./database";
+
+const SESSION_COOKIE = "session";
+
+// How long a sign-in lasts
+const SESSION_DURATION = 30 * 24 * 60 * 60 * 1000;
+
+// The signed-in user, with a database that only sees their data
+export interface Session {
+  user: User;
+  db: TodoDatabase;
+}
+
+const hashToken = (token: string) => new Bun.CryptoHasher("sha256").update(token).digest("hex");
+
+const sessionToken = (req: Request) =>
+  new Bun.CookieMap(req.headers.get("cookie") ?? "").get(SESSION_COOKIE);
+
+function sessionCookie(token: string, expires: Date): string {
+  return new Bun.Cookie(SESSION_COOKIE, token, {
+    path: "/",
+    expires,
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+  }).serialize();
+}
+
+// Signs the user in and returns the Set-Cookie header value that carries the session
+export function startSession(user: User): string {
+  const token = Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString("base64url");
+  const expires = new Date(Date.now() + SESSION_DURATION);
+  db.createSession(hashToken(token), user.id, expires.toISOString());
+  return sessionCookie(token, expires);
+}
+
+// Signs the request's session out and returns a Set-Cookie header value that clears it
+export function endSession(req: Request): string {
+  const token = sessionToken(req);
+  if (token) {
+    db.deleteSession(hashToken(token));
+  }
+  return sessionCookie("", new Date(0));
+}
+
+// The session the request's cookie belongs to, if it's still valid
+export function getSession(req: Request): Session | null {
+  const token = sessionToken(req);
+  const user = token ? db.getSessionUser(hashToken(token)) : null;
+  return user ? { user, db: db.forUser(user.id) } : null;
+}
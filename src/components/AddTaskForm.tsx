@@ -1,30 +1,52 @@
 import { useState } from "react";
+import type { BoardMember, Tag } from "../database";
+import type { RecurrenceRule } from "../recurrence";
+import { RecurrenceEditor } from "./RecurrenceEditor";
+import { TagPicker } from "./TagPicker";
+import { AssigneePicker } from "./AssigneePicker";
 
 interface AddTaskFormProps {
-  onAdd: (title: string, description: string) => void;
+  onAdd: (
+    title: string,
+    description: string,
+    recurrence: RecurrenceRule | null,
+    tagIds: string[],
+    assigneeId: string | null
+  ) => void;
+  tags: Tag[];
+  members: BoardMember[];
 }
 
-export function AddTaskForm({ onAdd }: AddTaskFormProps) {
+export function AddTaskForm({ onAdd, tags, members }: AddTaskFormProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [assigneeId, setAssigneeId] = useState<string | null>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!title.trim()) return;
 
-    onAdd(title.trim(), description.trim());
+    onAdd(title.trim(), description.trim(), recurrence, tagIds, assigneeId);
     
     // Reset form
     setTitle("");
     setDescription("");
+    setRecurrence(null);
+    setTagIds([]);
+    setAssigneeId(null);
     setIsExpanded(false);
   };
 
   const handleCancel = () => {
     setTitle("");
     setDescription("");
+    setRecurrence(null);
+    setTagIds([]);
+    setAssigneeId(null);
     setIsExpanded(false);
   };
 
@@ -74,6 +96,20 @@ export function AddTaskForm({ onAdd }: AddTaskFormProps) {
         />
       </div>
 
+      <div className="form-group">
+        <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+      </div>
+
+      <div className="form-group">
+        <TagPicker tags={tags} selected={tagIds} onChange={setTagIds} />
+      </div>
+
+      {members.length > 1 && (
+        <div className="form-group">
+          <AssigneePicker members={members} selected={assigneeId} onChange={setAssigneeId} />
+        </div>
+      )}
+
       <div className="form-actions">
         <button type="submit" className="btn-primary">
           Add Task
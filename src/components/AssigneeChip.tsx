@@ -0,0 +1,22 @@
+import type { BoardMember } from "../database";
+
+interface AssigneeChipProps {
+  member?: BoardMember; // missing once the assignee has left the board
+}
+
+// "Ada Lovelace" → "AL", "ada" → "A"
+export const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(word => word[0]!.toUpperCase())
+    .join("");
+
+export function AssigneeChip({ member }: AssigneeChipProps) {
+  return (
+    <span className="assignee-chip" title={member ? `Assigned to ${member.name}` : "Assigned to a former member"}>
+      {member ? initials(member.name) : "?"}
+    </span>
+  );
+}
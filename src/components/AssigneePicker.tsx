@@ -0,0 +1,29 @@
+import type { BoardMember } from "../database";
+import { initials } from "./AssigneeChip";
+
+interface AssigneePickerProps {
+  members: BoardMember[];
+  selected: string | null;
+  onChange: (assigneeId: string | null) => void;
+}
+
+// One member at most; clicking the chosen one unassigns the task
+export function AssigneePicker({ members, selected, onChange }: AssigneePickerProps) {
+  return (
+    // Keep an input being edited from losing focus (and saving) on click
+    <div className="assignee-picker" onMouseDown={(e) => e.preventDefault()}>
+      <span className="assignee-picker-label">Assignee:</span>
+      {members.map(member => (
+        <button
+          key={member.user_id}
+          type="button"
+          className={`assignee-option ${selected === member.user_id ? 'selected' : ''}`}
+          onClick={() => onChange(selected === member.user_id ? null : member.user_id)}
+        >
+          <span className="assignee-chip">{initials(member.name)}</span>
+          {member.name}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router";
+import type { BoardSummary } from "../database";
+import type { BoardCreate } from "../schemas";
+import { useBoard } from "./RequireBoard";
+
+// Picks which of the user's boards is shown, and starts new ones
+export function BoardSwitcher() {
+  const { board } = useBoard();
+  const navigate = useNavigate();
+  const [boards, setBoards] = useState<BoardSummary[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState("");
+
+  // Refetched on switching, as the list may have changed on another board's page
+  useEffect(() => {
+    fetchBoards();
+  }, [board.id, board.name]);
+
+  const fetchBoards = async () => {
+    try {
+      const response = await fetch('/api/boards');
+      const data = await response.json();
+      setBoards(data.boards);
+    } catch (error) {
+      console.error('Error fetching boards:', error);
+    }
+  };
+
+  const createBoard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      const body: BoardCreate = { name: name.trim() };
+      const response = await fetch('/api/boards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to create board');
+      }
+
+      const data = await response.json();
+      setName("");
+      setIsAdding(false);
+      navigate(`/boards/${data.board.id}`);
+    } catch (error) {
+      console.error('Error creating board:', error);
+    }
+  };
+
+  if (isAdding) {
+    return (
+      <form className="board-switcher" onSubmit={createBoard}>
+        <input
+          type="text"
+          placeholder="Board name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setIsAdding(false)}
+          maxLength={100}
+          autoFocus
+        />
+        <button type="submit" className="btn-small btn-primary" disabled={!name.trim()}>
+          Create
+        </button>
+        <button type="button" className="btn-small btn-secondary" onClick={() => setIsAdding(false)}>
+          ✕
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="board-switcher">
+      <select
+        value={board.id}
+        onChange={(e) => navigate(`/boards/${e.target.value}`)}
+        title="Switch board"
+      >
+        {/* The current board shows before the list has loaded */}
+        {(boards.length > 0 ? boards : [board]).map(b => (
+          <option key={b.id} value={b.id}>{b.name}</option>
+        ))}
+      </select>
+      <button className="btn-small btn-secondary" onClick={() => setIsAdding(true)} title="New board">
+        +
+      </button>
+      <Link to={`/boards/${board.id}/settings`} title="Members and invites">⚙</Link>
+      {board.role === 'viewer' && <span className="board-role-badge">View only</span>}
+    </div>
+  );
+}
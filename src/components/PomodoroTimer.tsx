@@ -1,56 +1,49 @@
 import { useState, useEffect, useRef } from "react";
-
-interface PomodoroState {
-  timeLeft: number;
-  isRunning: boolean;
-  currentType: 'work' | 'short_break' | 'long_break';
-  sessionCount: number;
-  currentSessionId: string | null;
+import type { PomodoroSessionType, Task, TimerPreferences, TimerPreferencesUpdate } from "../database";
+import type { TimerSnapshot } from "../timer";
+import type { TimerCommand, TimerCommandPayload } from "../schemas";
+import { TimerSettings } from "./TimerSettings";
+
+interface PomodoroTimerProps {
+  timer: TimerSnapshot;
+  onCommand: (command: TimerCommand, payload?: TimerCommandPayload) => void;
+  preferences: TimerPreferences;
+  onUpdatePreferences: (updates: TimerPreferencesUpdate) => void;
+  activeTask: Task | null;
+  onClearActiveTask: () => void;
 }
 
-const TIMER_DURATIONS = {
-  work: 25 * 60, // 25 minutes
-  short_break: 5 * 60, // 5 minutes
-  long_break: 15 * 60, // 15 minutes
-};
-
-export function PomodoroTimer() {
-  const [state, setState] = useState<PomodoroState>({
-    timeLeft: TIMER_DURATIONS.work,
-    isRunning: false,
-    currentType: 'work',
-    sessionCount: 0,
-    currentSessionId: null,
-  });
-
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+export function PomodoroTimer({
+  timer,
+  onCommand,
+  preferences,
+  onUpdatePreferences,
+  activeTask,
+  onClearActiveTask,
+}: PomodoroTimerProps) {
+  const [showSettings, setShowSettings] = useState(false);
+  const [showInterrupt, setShowInterrupt] = useState(false);
+  const [interruptReason, setInterruptReason] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  // The server sends the remaining time as of the snapshot; count down from
+  // when it arrived so the local clock's offset doesn't matter
+  const receivedAtRef = useRef(Date.now());
+  useEffect(() => {
+    receivedAtRef.current = Date.now();
+    setNow(receivedAtRef.current);
+  }, [timer]);
 
   useEffect(() => {
-    if (state.isRunning && state.timeLeft > 0) {
-      intervalRef.current = setInterval(() => {
-        setState(prev => ({
-          ...prev,
-          timeLeft: Math.max(0, prev.timeLeft - 1),
-        }));
-      }, 1000);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-
-      // Auto-complete session when timer reaches 0
-      if (state.timeLeft === 0 && state.currentSessionId) {
-        completeSession();
-      }
-    }
+    if (timer.status !== 'running') return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer.status]);
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [state.isRunning, state.timeLeft]);
+  const timeLeft = timer.status === 'running'
+    ? Math.max(0, timer.remaining - Math.floor((now - receivedAtRef.current) / 1000))
+    : timer.remaining;
 
   const formatTime = (seconds: number): string => {
     const minutes = Math.floor(seconds / 60);
@@ -58,165 +51,172 @@ export function PomodoroTimer() {
     return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
-  const startSession = async () => {
-    try {
-      const response = await fetch('/api/pomodoro/sessions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          duration: TIMER_DURATIONS[state.currentType],
-          type: state.currentType,
-          task_id: null, // Could be linked to a specific task in the future
-        }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          isRunning: true,
-          currentSessionId: data.session.id,
-        }));
-      }
-    } catch (error) {
-      console.error('Error starting pomodoro session:', error);
-      // Start locally even if API fails
-      setState(prev => ({ ...prev, isRunning: true }));
-    }
+  const startSession = () => {
+    onCommand('start', { task_id: activeTask?.id ?? null });
   };
 
-  const completeSession = async () => {
-    if (state.currentSessionId) {
-      try {
-        await fetch(`/api/pomodoro/sessions/${state.currentSessionId}/complete`, {
-          method: 'POST',
-        });
-      } catch (error) {
-        console.error('Error completing pomodoro session:', error);
-      }
-    }
-
-    // Move to next session type
-    const newSessionCount = state.currentType === 'work' ? state.sessionCount + 1 : state.sessionCount;
-    let nextType: 'work' | 'short_break' | 'long_break';
+  const switchType = (type: PomodoroSessionType) => {
+    onCommand('switch', { type });
+  };
 
-    if (state.currentType === 'work') {
-      // After work session, take a break
-      nextType = newSessionCount % 4 === 0 ? 'long_break' : 'short_break';
+  // Resetting a session in progress ends it as interrupted, so ask why first
+  const handleReset = () => {
+    if (timer.status === 'idle') {
+      onCommand('reset');
     } else {
-      // After break, back to work
-      nextType = 'work';
-    }
-
-    setState({
-      timeLeft: TIMER_DURATIONS[nextType],
-      isRunning: false,
-      currentType: nextType,
-      sessionCount: newSessionCount,
-      currentSessionId: null,
-    });
-
-    // Show notification if possible
-    if ('Notification' in window && Notification.permission === 'granted') {
-      new Notification('Pomodoro Session Complete!', {
-        body: `${state.currentType.replace('_', ' ')} session finished. Time for ${nextType.replace('_', ' ')}!`,
-        icon: '/favicon.ico',
-      });
+      setShowInterrupt(true);
     }
   };
 
-  const pauseTimer = () => {
-    setState(prev => ({ ...prev, isRunning: false }));
+  const confirmInterrupt = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCommand('reset', { reason: interruptReason.trim() || null });
+    setInterruptReason("");
+    setShowInterrupt(false);
   };
 
-  const resetTimer = () => {
-    setState({
-      timeLeft: TIMER_DURATIONS[state.currentType],
-      isRunning: false,
-      currentType: state.currentType,
-      sessionCount: state.sessionCount,
-      currentSessionId: null,
-    });
+  const cancelInterrupt = () => {
+    setInterruptReason("");
+    setShowInterrupt(false);
   };
 
-  const switchType = (type: 'work' | 'short_break' | 'long_break') => {
-    if (state.isRunning) return; // Can't switch during active session
-
-    setState({
-      timeLeft: TIMER_DURATIONS[type],
-      isRunning: false,
-      currentType: type,
-      sessionCount: state.sessionCount,
-      currentSessionId: null,
-    });
-  };
-
-  // Request notification permission on mount
+  // Request notification permission once notifications are enabled
   useEffect(() => {
-    if ('Notification' in window && Notification.permission === 'default') {
+    if (
+      preferences.notifications_enabled &&
+      'Notification' in window &&
+      Notification.permission === 'default'
+    ) {
       Notification.requestPermission();
     }
-  }, []);
+  }, [preferences.notifications_enabled]);
+
+  const isIdle = timer.status === 'idle';
 
   return (
     <div className="pomodoro-timer">
       <div className="timer-display">
-        <div className="timer-time">{formatTime(state.timeLeft)}</div>
+        <div className="timer-time">{formatTime(timeLeft)}</div>
         <div className="timer-type">
-          {state.currentType.replace('_', ' ').toUpperCase()}
+          {timer.type.replace('_', ' ').toUpperCase()}
+          {timer.status === 'paused' && ' · PAUSED'}
         </div>
         <div className="session-count">
-          Sessions completed: {state.sessionCount}
+          Sessions completed: {timer.session_count}
         </div>
+        {activeTask && (
+          <div className="timer-active-task">
+            <span title={activeTask.title}>🎯 {activeTask.title}</span>
+            <button
+              className="btn-small btn-secondary"
+              onClick={onClearActiveTask}
+              disabled={!isIdle}
+              title="Stop focusing on this task"
+            >
+              ✕
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="timer-controls">
-        {!state.isRunning ? (
-          <button 
-            className="btn-primary" 
-            onClick={startSession}
-            disabled={state.timeLeft === 0}
-          >
+        {isIdle && (
+          <button className="btn-primary" onClick={startSession}>
             Start
           </button>
-        ) : (
-          <button className="btn-secondary" onClick={pauseTimer}>
+        )}
+        {timer.status === 'running' && (
+          <button className="btn-secondary" onClick={() => onCommand('pause')}>
             Pause
           </button>
         )}
-        
-        <button 
-          className="btn-secondary" 
-          onClick={resetTimer}
-          disabled={state.isRunning}
+        {timer.status === 'paused' && (
+          <button className="btn-primary" onClick={() => onCommand('resume')}>
+            Resume
+          </button>
+        )}
+
+        <button
+          className="btn-secondary"
+          onClick={() => onCommand('skip')}
+          title="Skip to the next session"
+        >
+          Skip
+        </button>
+
+        <button
+          className="btn-secondary"
+          onClick={handleReset}
+          disabled={showInterrupt}
         >
           Reset
         </button>
+
+        <button
+          className="btn-secondary"
+          onClick={() => setShowSettings(!showSettings)}
+          title="Timer settings"
+        >
+          ⚙
+        </button>
       </div>
 
+      {showInterrupt && (
+        <form className="timer-interrupt" onSubmit={confirmInterrupt}>
+          <input
+            type="text"
+            placeholder="What interrupted you? (optional)"
+            value={interruptReason}
+            onChange={(e) => setInterruptReason(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && cancelInterrupt()}
+            maxLength={500}
+            autoFocus
+          />
+          <div className="form-actions">
+            <button type="submit" className="btn-danger">
+              End session
+            </button>
+            <button type="button" className="btn-secondary" onClick={cancelInterrupt}>
+              Keep going
+            </button>
+          </div>
+        </form>
+      )}
+
       <div className="timer-types">
         <button
-          className={`type-btn ${state.currentType === 'work' ? 'active' : ''}`}
+          className={`type-btn ${timer.type === 'work' ? 'active' : ''}`}
           onClick={() => switchType('work')}
-          disabled={state.isRunning}
+          disabled={!isIdle}
         >
-          Work (25m)
+          Work ({preferences.work_duration}m)
         </button>
         <button
-          className={`type-btn ${state.currentType === 'short_break' ? 'active' : ''}`}
+          className={`type-btn ${timer.type === 'short_break' ? 'active' : ''}`}
           onClick={() => switchType('short_break')}
-          disabled={state.isRunning}
+          disabled={!isIdle}
         >
-          Short Break (5m)
+          Short Break ({preferences.short_break_duration}m)
         </button>
         <button
-          className={`type-btn ${state.currentType === 'long_break' ? 'active' : ''}`}
+          className={`type-btn ${timer.type === 'long_break' ? 'active' : ''}`}
           onClick={() => switchType('long_break')}
-          disabled={state.isRunning}
+          disabled={!isIdle}
         >
-          Long Break (15m)
+          Long Break ({preferences.long_break_duration}m)
         </button>
       </div>
+
+      {showSettings && (
+        <TimerSettings
+          preferences={preferences}
+          onSave={(updates) => {
+            onUpdatePreferences(updates);
+            setShowSettings(false);
+          }}
+          onCancel={() => setShowSettings(false)}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import type { RecurrenceFrequency, RecurrenceRule } from "../recurrence";
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const UNITS = { daily: "day(s)", weekly: "week(s)", monthly: "month(s)" };
+
+type EndMode = "never" | "until" | "count";
+
+export function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  // Kept separately so "On date" stays selected before a date is picked
+  const [endMode, setEndMode] = useState<EndMode>(
+    value?.until ? "until" : value?.count ? "count" : "never"
+  );
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+    // Weekdays and month days only make sense for their own frequency
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval ?? 1,
+      until: value?.until ?? null,
+      count: value?.count ?? null,
+    });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!value) return;
+    const current = value.weekdays ?? [];
+    const weekdays = current.includes(weekday)
+      ? current.filter(day => day !== weekday)
+      : [...current, weekday].sort();
+    onChange({ ...value, weekdays: weekdays.length > 0 ? weekdays : undefined });
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (!value) return;
+    setEndMode(mode);
+    onChange({
+      ...value,
+      until: mode === "until" ? value.until ?? null : null,
+      count: mode === "count" ? value.count ?? 10 : null,
+    });
+  };
+
+  return (
+    <div className="recurrence-editor">
+      <select
+        value={value?.frequency ?? ""}
+        onChange={(e) => handleFrequencyChange(e.target.value)}
+      >
+        <option value="">Does not repeat</option>
+        <option value="daily">Daily</option>
+        <option value="weekly">Weekly</option>
+        <option value="monthly">Monthly</option>
+      </select>
+
+      {value && (
+        <>
+          <label className="recurrence-field">
+            Every
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Number(e.target.value) })}
+            />
+            {UNITS[value.frequency]}
+          </label>
+
+          {value.frequency === "weekly" && (
+            <div className="recurrence-weekdays">
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <button
+                  key={label}
+                  type="button"
+                  className={`type-btn ${value.weekdays?.includes(weekday) ? 'active' : ''}`}
+                  onClick={() => toggleWeekday(weekday)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {value.frequency === "monthly" && (
+            <label className="recurrence-field">
+              On day
+              <input
+                type="number"
+                min={1}
+                max={31}
+                placeholder="same"
+                value={value.month_day ?? ""}
+                onChange={(e) => onChange({
+                  ...value,
+                  month_day: e.target.value ? Number(e.target.value) : undefined,
+                })}
+              />
+            </label>
+          )}
+
+          <label className="recurrence-field">
+            Ends
+            <select
+              value={endMode}
+              onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+            >
+              <option value="never">Never</option>
+              <option value="until">On date</option>
+              <option value="count">After</option>
+            </select>
+            {endMode === "until" && (
+              <input
+                type="date"
+                value={value.until ?? ""}
+                onChange={(e) => onChange({ ...value, until: e.target.value || null })}
+                required
+              />
+            )}
+            {endMode === "count" && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={value.count ?? ""}
+                  onChange={(e) => onChange({ ...value, count: Number(e.target.value) || null })}
+                  required
+                />
+                times
+              </>
+            )}
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
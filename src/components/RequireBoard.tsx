@@ -0,0 +1,126 @@
+import { createContext, useContext, useState, useEffect } from "react";
+import type { ReactNode } from "react";
+import { Navigate, useNavigate, useParams } from "react-router";
+import type { BoardMember, BoardSummary } from "../database";
+import { hasRole } from "../schemas";
+import { loadSnapshot } from "../offline";
+
+interface CurrentBoard {
+  board: BoardSummary;
+  members: BoardMember[];
+  // Where the board's tasks, tags, trash and so on live, e.g. `${api}/tasks`
+  api: string;
+  canEdit: boolean;
+  refreshBoard: () => Promise<void>;
+}
+
+const CurrentBoardContext = createContext<CurrentBoard | null>(null);
+
+// The board open at /boards/:boardId is remembered for the next visit to /
+const LAST_BOARD_KEY = "lastBoardId";
+
+// The board being looked at, for components rendered inside RequireBoard
+export function useBoard(): CurrentBoard {
+  const currentBoard = useContext(CurrentBoardContext);
+  if (!currentBoard) {
+    throw new Error("useBoard must be used inside RequireBoard");
+  }
+  return currentBoard;
+}
+
+interface RequireBoardProps {
+  children: ReactNode;
+}
+
+// Renders its children for a member of the board in the URL and sends anyone else home
+export function RequireBoard({ children }: RequireBoardProps) {
+  const { boardId = "" } = useParams();
+  // undefined while loading, null when the board can't be seen
+  const [current, setCurrent] = useState<Pick<CurrentBoard, "board" | "members"> | null | undefined>(undefined);
+
+  useEffect(() => {
+    setCurrent(undefined);
+    fetchBoard();
+  }, [boardId]);
+
+  const fetchBoard = async () => {
+    try {
+      const response = await fetch(`/api/boards/${boardId}`);
+      if (response.status === 404) {
+        localStorage.removeItem(LAST_BOARD_KEY);
+        setCurrent(null);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch board');
+      }
+
+      const data = await response.json();
+      setCurrent({ board: data.board, members: data.members });
+      localStorage.setItem(LAST_BOARD_KEY, boardId);
+    } catch (error) {
+      console.error('Error fetching board:', error);
+      // Offline, the board opens as last seen
+      const snapshot = error instanceof TypeError ? await loadSnapshot(boardId).catch(() => null) : null;
+      setCurrent(snapshot ? { board: snapshot.board, members: snapshot.members } : null);
+    }
+  };
+
+  if (current === undefined) {
+    return <div className="loading">Loading board...</div>;
+  }
+
+  if (current === null) {
+    return <Navigate to="/" replace />;
+  }
+
+  const value: CurrentBoard = {
+    ...current,
+    api: `/api/boards/${current.board.id}`,
+    canEdit: hasRole(current.board.role, 'editor'),
+    refreshBoard: fetchBoard,
+  };
+
+  return (
+    <CurrentBoardContext.Provider value={value}>
+      {children}
+    </CurrentBoardContext.Provider>
+  );
+}
+
+// Opens the board used last, or the first one; someone who has left or
+// deleted all their boards gets a new one
+export function BoardIndex() {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    openBoard();
+  }, []);
+
+  const openBoard = async () => {
+    try {
+      const response = await fetch('/api/boards');
+      const data = await response.json();
+      const boards: BoardSummary[] = data.boards;
+
+      let board = boards.find(b => b.id === localStorage.getItem(LAST_BOARD_KEY)) ?? boards[0];
+      if (!board) {
+        const created = await fetch('/api/boards', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: 'My board' }),
+        });
+        if (!created.ok) {
+          throw new Error('Failed to create board');
+        }
+        board = (await created.json()).board as BoardSummary;
+      }
+
+      navigate(`/boards/${board.id}`, { replace: true });
+    } catch (error) {
+      console.error('Error opening a board:', error);
+    }
+  };
+
+  return <div className="loading">Loading boards...</div>;
+}
@@ -0,0 +1,100 @@
+import { createContext, useContext, useState, useEffect } from "react";
+import type { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router";
+import type { User } from "../database";
+import { clearOfflineData } from "../offline";
+
+interface CurrentUser {
+  user: User;
+  logOut: () => Promise<void>;
+  // For when the server says the session has ended; unlike logOut, what's
+  // kept on the device stays for after signing in again
+  signInAgain: () => void;
+}
+
+const CurrentUserContext = createContext<CurrentUser | null>(null);
+
+// Who was signed in last, so the app still opens without a connection
+const LAST_USER_KEY = "lastUser";
+
+// The signed-in user, for components rendered inside RequireUser
+export function useCurrentUser(): CurrentUser {
+  const currentUser = useContext(CurrentUserContext);
+  if (!currentUser) {
+    throw new Error("useCurrentUser must be used inside RequireUser");
+  }
+  return currentUser;
+}
+
+interface RequireUserProps {
+  children: ReactNode;
+}
+
+// Renders its children for a signed-in user and sends anyone else to the login page
+export function RequireUser({ children }: RequireUserProps) {
+  const location = useLocation();
+  // undefined until the server has said who, if anyone, is signed in
+  const [user, setUser] = useState<User | null | undefined>(undefined);
+
+  useEffect(() => {
+    fetchUser();
+  }, []);
+
+  const fetchUser = async () => {
+    try {
+      const response = await fetch('/api/auth/me');
+      if (response.status === 401) {
+        localStorage.removeItem(LAST_USER_KEY);
+        setUser(null);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch the signed-in user');
+      }
+
+      const data = await response.json();
+      localStorage.setItem(LAST_USER_KEY, JSON.stringify(data.user));
+      setUser(data.user);
+    } catch (error) {
+      console.error('Error fetching the signed-in user:', error);
+      const lastUser = localStorage.getItem(LAST_USER_KEY);
+      setUser(error instanceof TypeError && lastUser ? JSON.parse(lastUser) : null);
+    }
+  };
+
+  const logOut = async () => {
+    try {
+      const response = await fetch('/api/auth/logout', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to log out');
+      }
+
+      // Nothing of this account stays on the device
+      localStorage.removeItem(LAST_USER_KEY);
+      await clearOfflineData();
+      setUser(null);
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
+  };
+
+  const signInAgain = () => {
+    localStorage.removeItem(LAST_USER_KEY);
+    setUser(null);
+  };
+
+  if (user === undefined) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (user === null) {
+    // Login comes back here, so invite links survive signing in
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  return (
+    <CurrentUserContext.Provider value={{ user, logOut, signInAgain }}>
+      {children}
+    </CurrentUserContext.Provider>
+  );
+}
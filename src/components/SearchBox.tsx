@@ -0,0 +1,153 @@
+import { useState, useEffect, useRef } from "react";
+import type { SearchResult, Task } from "../database";
+import { parseISODate } from "../dates";
+import { splitHighlights } from "../search";
+import { useBoard } from "./RequireBoard";
+
+interface SearchBoxProps {
+  onSelect: (task: Task) => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY = 200;
+
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((part, index) =>
+        part.match ? <mark key={index}>{part.text}</mark> : <span key={index}>{part.text}</span>
+      )}
+    </>
+  );
+}
+
+export function SearchBox({ onSelect }: SearchBoxProps) {
+  const { api } = useBoard();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Ctrl/Cmd+K, or "/" outside a text field, focuses the search box
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const isTyping = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+
+      if ((e.key === 'k' && (e.metaKey || e.ctrlKey)) || (e.key === '/' && !isTyping)) {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    // Ignore responses for a query that has since changed
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`${api}/search?q=${encodeURIComponent(query)}`);
+        const data = await response.json();
+        if (!cancelled) {
+          setResults(data.results);
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        console.error('Error searching tasks:', error);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, api]);
+
+  const select = (result: SearchResult) => {
+    onSelect(result.task);
+    setIsOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      select(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setQuery("");
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="search-box">
+      <input
+        ref={inputRef}
+        type="search"
+        placeholder="Search tasks (Ctrl+K)"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+
+      {isOpen && query.trim() && (
+        <ul className="search-results">
+          {results.length === 0 ? (
+            <li className="search-empty">No matching tasks</li>
+          ) : (
+            results.map((result, index) => (
+              <li
+                key={result.task.id}
+                className={`search-result ${index === activeIndex ? 'active' : ''}`}
+                // Select before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  select(result);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+              >
+                <div className="search-result-title">
+                  <Highlighted text={result.title} />
+                </div>
+                {result.snippet && (
+                  <div className="search-result-snippet">
+                    <Highlighted text={result.snippet} />
+                  </div>
+                )}
+                <div className="search-result-day">
+                  {parseISODate(result.task.day).toLocaleDateString('en-US', {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                  })}
+                </div>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
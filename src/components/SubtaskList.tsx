@@ -0,0 +1,178 @@
+import { useState } from "react";
+import type { Subtask } from "../database";
+import type { SubtaskUpdate } from "../schemas";
+
+// Its own drag type, so a subtask drag isn't taken for a task drag
+const SUBTASK_DRAG_TYPE = "application/x-subtask-id";
+
+interface SubtaskListProps {
+  subtasks: Subtask[];
+  onAdd: (title: string) => void;
+  onUpdate: (id: string, updates: SubtaskUpdate) => void;
+  onDelete: (id: string) => void;
+  onReorder: (subtaskIds: string[]) => void;
+  autoComplete: boolean;
+  onToggleAutoComplete: (enabled: boolean) => void;
+  readOnly?: boolean; // shown to viewers of a shared board
+}
+
+export function SubtaskList({
+  subtasks,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onReorder,
+  autoComplete,
+  onToggleAutoComplete,
+  readOnly = false,
+}: SubtaskListProps) {
+  const [newTitle, setNewTitle] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newTitle.trim()) {
+      onAdd(newTitle.trim());
+      setNewTitle("");
+    }
+  };
+
+  const handleStartEdit = (subtask: Subtask) => {
+    setEditingId(subtask.id);
+    setEditTitle(subtask.title);
+  };
+
+  const handleSaveEdit = () => {
+    const subtask = subtasks.find(s => s.id === editingId);
+    if (subtask && editTitle.trim() && editTitle.trim() !== subtask.title) {
+      onUpdate(subtask.id, { title: editTitle.trim() });
+    }
+    setEditingId(null);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSaveEdit();
+    } else if (e.key === 'Escape') {
+      setEditingId(null);
+    }
+  };
+
+  // The task item around the checklist is draggable too, so subtask drag
+  // events stop here
+  const handleDragStart = (e: React.DragEvent, subtaskId: string) => {
+    e.stopPropagation();
+    setDraggedId(subtaskId);
+    e.dataTransfer.setData(SUBTASK_DRAG_TYPE, subtaskId);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (!draggedId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDragOverIndex(index);
+    e.dataTransfer.dropEffect = 'move';
+  };
+
+  const handleDrop = (e: React.DragEvent, dropIndex: number) => {
+    if (!draggedId) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const dragIndex = subtasks.findIndex(s => s.id === draggedId);
+    if (dragIndex !== -1 && dragIndex !== dropIndex) {
+      const reordered = [...subtasks];
+      const [dragged] = reordered.splice(dragIndex, 1);
+      reordered.splice(dropIndex, 0, dragged!);
+      onReorder(reordered.map(s => s.id));
+    }
+
+    setDraggedId(null);
+    setDragOverIndex(null);
+  };
+
+  const handleDragEnd = (e: React.DragEvent) => {
+    e.stopPropagation();
+    setDraggedId(null);
+    setDragOverIndex(null);
+  };
+
+  return (
+    <div className="subtask-list">
+      {subtasks.map((subtask, index) => (
+        <div
+          key={subtask.id}
+          className={`subtask-item ${subtask.completed ? 'completed' : ''} ${dragOverIndex === index ? 'drag-over' : ''}`}
+          draggable={!readOnly && editingId !== subtask.id}
+          onDragStart={(e) => handleDragStart(e, subtask.id)}
+          onDragOver={(e) => handleDragOver(e, index)}
+          onDragLeave={() => setDragOverIndex(null)}
+          onDrop={(e) => handleDrop(e, index)}
+          onDragEnd={handleDragEnd}
+        >
+          <input
+            type="checkbox"
+            checked={Boolean(subtask.completed)}
+            onChange={() => onUpdate(subtask.id, { completed: !subtask.completed })}
+            disabled={readOnly}
+          />
+          {editingId === subtask.id ? (
+            <input
+              type="text"
+              value={editTitle}
+              onChange={(e) => setEditTitle(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              onBlur={handleSaveEdit}
+              className="subtask-title-edit"
+              autoFocus
+            />
+          ) : (
+            <span className="subtask-title" onClick={() => !readOnly && handleStartEdit(subtask)}>
+              {subtask.title}
+            </span>
+          )}
+          {!readOnly && (
+            <button
+              className="btn-small btn-secondary"
+              onClick={() => onDelete(subtask.id)}
+              title="Remove item"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+
+      {!readOnly && (
+        <>
+          <form className="subtask-add" onSubmit={handleAdd}>
+            <input
+              type="text"
+              placeholder="Add an item..."
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              maxLength={200}
+            />
+            <button type="submit" className="btn-small btn-primary" disabled={!newTitle.trim()}>
+              Add
+            </button>
+          </form>
+
+          <label className="subtask-auto-complete">
+            <input
+              type="checkbox"
+              checked={autoComplete}
+              onChange={(e) => onToggleAutoComplete(e.target.checked)}
+            />
+            Complete the task when every item is done
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import type { Tag } from "../database";
+
+interface TagFilterBarProps {
+  tags: Tag[];
+  activeTagId: string | null;
+  onSelect: (tagId: string | null) => void;
+  onCreate: (name: string, color: string) => void;
+  onDelete: (tagId: string) => void;
+  readOnly?: boolean; // viewers can filter but not change tags
+}
+
+const DEFAULT_TAG_COLOR = "#3b82f6";
+
+export function TagFilterBar({
+  tags,
+  activeTagId,
+  onSelect,
+  onCreate,
+  onDelete,
+  readOnly = false,
+}: TagFilterBarProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_TAG_COLOR);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    onCreate(name.trim(), color);
+    setName("");
+    setColor(DEFAULT_TAG_COLOR);
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="tag-filter-bar">
+      <button
+        className={`tag-chip ${activeTagId === null ? 'selected' : ''}`}
+        onClick={() => onSelect(null)}
+      >
+        All
+      </button>
+
+      {tags.map(tag => (
+        <span key={tag.id} className="tag-filter">
+          <button
+            className={`tag-chip ${activeTagId === tag.id ? 'selected' : ''}`}
+            style={{ '--tag-color': tag.color } as React.CSSProperties}
+            onClick={() => onSelect(activeTagId === tag.id ? null : tag.id)}
+            title={`Show only tasks tagged ${tag.name}`}
+          >
+            {tag.name}
+          </button>
+          {!readOnly && (
+            <button
+              className="tag-delete"
+              onClick={() => onDelete(tag.id)}
+              title={`Delete the ${tag.name} tag`}
+            >
+              ✕
+            </button>
+          )}
+        </span>
+      ))}
+
+      {isAdding ? (
+        <form className="tag-add" onSubmit={handleSubmit}>
+          <input
+            type="text"
+            placeholder="Tag name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setIsAdding(false)}
+            maxLength={50}
+            autoFocus
+          />
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            title="Tag color"
+          />
+          <button type="submit" className="btn-small btn-primary" disabled={!name.trim()}>
+            Add
+          </button>
+          <button type="button" className="btn-small btn-secondary" onClick={() => setIsAdding(false)}>
+            ✕
+          </button>
+        </form>
+      ) : !readOnly && (
+        <button className="btn-small btn-secondary" onClick={() => setIsAdding(true)}>
+          + Tag
+        </button>
+      )}
+    </div>
+  );
+}
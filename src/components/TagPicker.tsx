@@ -0,0 +1,36 @@
+import type { Tag } from "../database";
+
+interface TagPickerProps {
+  tags: Tag[];
+  selected: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+export function TagPicker({ tags, selected, onChange }: TagPickerProps) {
+  const toggle = (tagId: string) => {
+    onChange(selected.includes(tagId)
+      ? selected.filter(id => id !== tagId)
+      : [...selected, tagId]);
+  };
+
+  if (tags.length === 0) {
+    return <span className="tag-picker-empty">No tags yet — create one above the task list.</span>;
+  }
+
+  return (
+    // Keep an input being edited from losing focus (and saving) on click
+    <div className="tag-picker" onMouseDown={(e) => e.preventDefault()}>
+      {tags.map(tag => (
+        <button
+          key={tag.id}
+          type="button"
+          className={`tag-chip ${selected.includes(tag.id) ? 'selected' : ''}`}
+          style={{ '--tag-color': tag.color } as React.CSSProperties}
+          onClick={() => toggle(tag.id)}
+        >
+          {tag.name}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import type { BoardMember, Task, TaskHistoryEntry } from "../database";
+import { parseISODate } from "../dates";
+import { useBoard } from "./RequireBoard";
+
+interface TaskHistoryProps {
+  task: Task;
+}
+
+const formatDay = (day: unknown) =>
+  typeof day === "string"
+    ? parseISODate(day).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+    : "";
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+function describeChange({ change, old_value, new_value }: TaskHistoryEntry, members: BoardMember[]): string {
+  const memberName = (userId: unknown) =>
+    members.find(member => member.user_id === userId)?.name ?? "a former member";
+
+
+  switch (change) {
+    case 'created':
+      return "Created";
+    case 'deleted':
+      return "Moved to the trash";
+    case 'restored':
+      return "Restored from the trash";
+    case 'title':
+      return `Renamed from “${old_value}” to “${new_value}”`;
+    case 'description':
+      if (old_value === null) return "Description added";
+      if (new_value === null) return "Description removed";
+      return "Description edited";
+    case 'completed':
+      return new_value ? "Marked done" : "Marked not done";
+    case 'priority':
+      return `Moved from position ${old_value} to ${new_value}`;
+    case 'day':
+      return `Moved from ${formatDay(old_value)} to ${formatDay(new_value)}`;
+    case 'assignee_id':
+      if (new_value === null) return `Unassigned from ${memberName(old_value)}`;
+      return `Assigned to ${memberName(new_value)}`;
+  }
+}
+
+export function TaskHistory({ task }: TaskHistoryProps) {
+  const { api, members } = useBoard();
+  const [history, setHistory] = useState<TaskHistoryEntry[] | null>(null);
+
+  // Reordering doesn't touch updated_at, so the priority is watched too
+  useEffect(() => {
+    fetchHistory();
+  }, [task.id, task.updated_at, task.priority]);
+
+  const fetchHistory = async () => {
+    try {
+      const response = await fetch(`${api}/tasks/${task.id}/history`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch task history');
+      }
+
+      const data = await response.json();
+      setHistory(data.history);
+    } catch (error) {
+      console.error('Error fetching task history:', error);
+    }
+  };
+
+  if (!history) {
+    return <div className="task-history-empty">Loading history...</div>;
+  }
+
+  if (history.length === 0) {
+    return <div className="task-history-empty">No changes recorded yet.</div>;
+  }
+
+  return (
+    <ol className="task-history">
+      {history.map(entry => (
+        <li key={entry.id} className={`task-history-entry ${entry.change}`}>
+          <time className="task-history-time" dateTime={entry.changed_at}>
+            {formatTime(entry.changed_at)}
+          </time>
+          <span
+            className="task-history-text"
+            title={entry.change === 'description' ? `Before: ${entry.old_value ?? "(none)"}` : undefined}
+          >
+            {describeChange(entry, members)}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
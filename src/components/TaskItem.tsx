@@ -1,47 +1,178 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Task } from "../database";
+import type { SeriesScope, Subtask, Tag, TaskFocusSummary, TaskSeries } from "../database";
+import type { SubtaskUpdate, TaskUpdate } from "../schemas";
+import type { Presence } from "../presence";
+import { describeRecurrence } from "../recurrence";
+import { SubtaskList } from "./SubtaskList";
+import { TaskHistory } from "./TaskHistory";
+import { TagPicker } from "./TagPicker";
+import { AssigneeChip } from "./AssigneeChip";
+import { AssigneePicker } from "./AssigneePicker";
+import { useBoard } from "./RequireBoard";
+
+// An inline edit refused because someone else saved the task first
+export interface EditConflict {
+  updates: TaskUpdate;
+  scope: SeriesScope;
+  theirs: Task;
+}
 
 interface TaskItemProps {
   task: Task;
-  onUpdate: (id: string, updates: Partial<Task>) => void;
-  onDelete: (id: string) => void;
+  // onConflict gets the server's copy when an edit carrying a version is stale
+  onUpdate: (id: string, updates: TaskUpdate, scope?: SeriesScope, onConflict?: (current: Task) => void) => void;
+  onDelete: (id: string, scope?: SeriesScope) => void;
+  isFocused: boolean;
+  focusSummary?: TaskFocusSummary;
+  isPending: boolean;
+  // Kept by the app, since a queued edit can run into one on replay too
+  conflict?: EditConflict;
+  onConflictChange: (conflict: EditConflict | null) => void;
+  isSelected: boolean; // for the list's bulk actions
+  onSelect: (range: boolean) => void;
+  editors: Presence[]; // other people editing it inline right now
+  onEditingChange: (isEditing: boolean) => void;
+  series?: TaskSeries;
+  tags: Tag[];
+  onFocus: (id: string) => void;
+  subtasks: Subtask[];
+  onAddSubtask: (taskId: string, title: string) => void;
+  onUpdateSubtask: (taskId: string, id: string, updates: SubtaskUpdate) => void;
+  onDeleteSubtask: (taskId: string, id: string) => void;
+  onReorderSubtasks: (taskId: string, subtaskIds: string[]) => void;
   isDragging: boolean;
   onDragStart: (e: React.DragEvent) => void;
   onDragEnd: () => void;
+  readOnly?: boolean; // shown to viewers of a shared board
+  sortable?: boolean;
 }
 
 export function TaskItem({ 
   task, 
   onUpdate, 
   onDelete, 
+  isFocused,
+  focusSummary,
+  isPending,
+  conflict,
+  onConflictChange,
+  isSelected,
+  onSelect,
+  editors,
+  onEditingChange,
+  series,
+  tags,
+  onFocus,
+  subtasks,
+  onAddSubtask,
+  onUpdateSubtask,
+  onDeleteSubtask,
+  onReorderSubtasks,
   isDragging, 
   onDragStart, 
-  onDragEnd 
+  onDragEnd,
+  readOnly = false,
+  sortable = true,
 }: TaskItemProps) {
+  const { members } = useBoard();
   const [isEditing, setIsEditing] = useState(false);
+  const [editBase, setEditBase] = useState<Task>(task); // the task as it was when the edit began
   const [editTitle, setEditTitle] = useState(task.title);
   const [editDescription, setEditDescription] = useState(task.description || "");
+  const [editTagIds, setEditTagIds] = useState<string[]>(task.tag_ids ?? []);
+  const [editAssigneeId, setEditAssigneeId] = useState<string | null>(task.assignee_id ?? null);
+  const [applyToFuture, setApplyToFuture] = useState(false);
+  const [isChoosingDeleteScope, setIsChoosingDeleteScope] = useState(false);
+  const [showSubtasks, setShowSubtasks] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Someone else's edit is a soft lock: nothing stops ours, but it isn't started from a click
+  const isLocked = editors.length > 0 && !isEditing;
+  const editingNote = `${editors.map(editor => editor.name).join(", ")} ${editors.length === 1 ? 'is' : 'are'} editing`;
+
+  useEffect(() => {
+    if (!isEditing) return;
+    onEditingChange(true);
+    return () => onEditingChange(false);
+  }, [isEditing]);
+
+  const completedSubtasks = subtasks.filter(subtask => subtask.completed).length;
+  const taskTags = tags.filter(tag => task.tag_ids?.includes(tag.id));
 
   const handleToggleComplete = () => {
     onUpdate(task.id, { completed: !task.completed });
   };
 
-  const handleStartEdit = () => {
+  // Opens the editor on `base`, filled in from `draft` when that differs
+  const beginEdit = (base: Task, draft: Task = base) => {
     setIsEditing(true);
-    setEditTitle(task.title);
-    setEditDescription(task.description || "");
+    setEditBase(base);
+    setEditTitle(draft.title);
+    setEditDescription(draft.description || "");
+    setEditTagIds(draft.tag_ids ?? []);
+    setEditAssigneeId(draft.assignee_id ?? null);
+    setApplyToFuture(false);
+  };
+
+  const handleStartEdit = () => {
+    if (readOnly || isLocked || conflict) return;
+    beginEdit(task);
+  };
+
+  /**
+   * Sends an edit made on `base`. If someone else saved the task in between
+   * but left its title and description alone, it goes through on top of
+   * theirs; otherwise both versions are shown to choose from.
+   */
+  const saveEdit = (updates: TaskUpdate, base: Task, scope: SeriesScope) => {
+    onUpdate(task.id, { ...updates, version: base.version }, scope, current => {
+      if (current.title === base.title && (current.description ?? null) === (base.description ?? null)) {
+        saveEdit(updates, { ...base, version: current.version }, scope);
+      } else {
+        onConflictChange({ updates, scope, theirs: current });
+      }
+    });
   };
 
   const handleSaveEdit = () => {
     if (editTitle.trim()) {
-      onUpdate(task.id, {
+      const baseTagIds = editBase.tag_ids ?? [];
+      const tagsChanged = editTagIds.length !== baseTagIds.length || editTagIds.some(id => !baseTagIds.includes(id));
+      saveEdit({
         title: editTitle.trim(),
-        description: editDescription.trim() || undefined,
-      });
+        description: editDescription.trim() || null,
+        // Tags and assignee are left out when unchanged, so ours don't undo
+        // someone else's, and a task held by a former member can still be edited
+        ...(tagsChanged && { tag_ids: editTagIds }),
+        ...(editAssigneeId !== (editBase.assignee_id ?? null) && { assignee_id: editAssigneeId }),
+      }, editBase, applyToFuture ? 'future' : 'this');
       setIsEditing(false);
     }
   };
 
+  const handleKeepMine = () => {
+    if (!conflict) return;
+    onConflictChange(null);
+    saveEdit(conflict.updates, conflict.theirs, conflict.scope);
+  };
+
+  // Their copy is on screen already
+  const handleKeepTheirs = () => onConflictChange(null);
+
+  const handleEditMerged = () => {
+    if (!conflict) return;
+    const { updates, theirs } = conflict;
+    onConflictChange(null);
+    beginEdit(theirs, {
+      ...theirs,
+      title: updates.title ?? theirs.title,
+      description: updates.description ?? null,
+      tag_ids: updates.tag_ids ?? theirs.tag_ids,
+      assignee_id: updates.assignee_id !== undefined ? updates.assignee_id : theirs.assignee_id,
+    });
+  };
+
   const handleCancelEdit = () => {
     setIsEditing(false);
     setEditTitle(task.title);
@@ -57,6 +188,15 @@ export function TaskItem({
     }
   };
 
+  // A repeating task asks whether the following occurrences go too
+  const handleDelete = () => {
+    if (task.series_id) {
+      setIsChoosingDeleteScope(true);
+    } else {
+      onDelete(task.id);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -68,14 +208,28 @@ export function TaskItem({
 
   return (
     <div
-      className={`task-item ${task.completed ? 'completed' : ''} ${isDragging ? 'dragging' : ''}`}
-      draggable={!isEditing}
+      id={`task-${task.id}`}
+      className={`task-item ${task.completed ? 'completed' : ''} ${isDragging ? 'dragging' : ''} ${isFocused ? 'focused' : ''} ${isPending ? 'pending-sync' : ''} ${isLocked ? 'locked' : ''} ${isSelected ? 'selected' : ''}`}
+      draggable={!isEditing && !readOnly && sortable}
       onDragStart={onDragStart}
       onDragEnd={onDragEnd}
     >
-      <div className="drag-handle" title="Drag to reorder">
-        ⋮⋮
-      </div>
+      {!readOnly && (
+        <input
+          type="checkbox"
+          className="task-select"
+          checked={isSelected}
+          onClick={(e) => onSelect(e.shiftKey)}
+          readOnly
+          title="Select (shift-click to select a range)"
+        />
+      )}
+
+      {!readOnly && sortable && (
+        <div className="drag-handle" title="Drag to reorder">
+          ⋮⋮
+        </div>
+      )}
 
       <div className="task-content">
         <div className="task-header">
@@ -84,6 +238,7 @@ export function TaskItem({
             checked={task.completed}
             onChange={handleToggleComplete}
             className="task-checkbox"
+            disabled={readOnly}
           />
           
           {isEditing ? (
@@ -102,6 +257,48 @@ export function TaskItem({
             </h3>
           )}
 
+          {subtasks.length > 0 && (
+            <button
+              className={`subtask-progress ${completedSubtasks === subtasks.length ? 'done' : ''}`}
+              onClick={() => setShowSubtasks(!showSubtasks)}
+              title={showSubtasks ? "Hide checklist" : "Show checklist"}
+            >
+              ☑ {completedSubtasks}/{subtasks.length}
+            </button>
+          )}
+
+          {!isEditing && taskTags.map(tag => (
+            <span
+              key={tag.id}
+              className="tag-chip selected"
+              style={{ '--tag-color': tag.color } as React.CSSProperties}
+            >
+              {tag.name}
+            </span>
+          ))}
+
+          {!isEditing && task.assignee_id && (
+            <AssigneeChip member={members.find(member => member.user_id === task.assignee_id)} />
+          )}
+
+          {editors.length > 0 && (
+            <span className="editing-badge" title="Wait for them to finish so neither edit is lost">
+              ✎ {editingNote}
+            </span>
+          )}
+
+          {isPending && (
+            <span className="pending-badge" title="Saved on this device; it goes to the server once you're back online">
+              ⏳ Not synced
+            </span>
+          )}
+
+          {series && (
+            <span className="recurrence-badge" title={describeRecurrence(series.rule)}>
+              🔁 {describeRecurrence(series.rule)}
+            </span>
+          )}
+
           <div className="task-priority">
             Priority: {task.priority}
           </div>
@@ -124,6 +321,63 @@ export function TaskItem({
           </div>
         )}
 
+        {conflict && (
+          <div className="merge-prompt" role="alert">
+            <p className="merge-prompt-title">Someone else changed this task while you were editing it.</p>
+            <div className="merge-versions">
+              <div className="merge-version">
+                <h4>Theirs</h4>
+                <strong>{conflict.theirs.title}</strong>
+                {conflict.theirs.description && <p>{conflict.theirs.description}</p>}
+              </div>
+              <div className="merge-version">
+                <h4>Yours</h4>
+                <strong>{conflict.updates.title}</strong>
+                {conflict.updates.description && <p>{conflict.updates.description}</p>}
+              </div>
+            </div>
+            <div className="merge-actions">
+              <button className="btn-small btn-primary" onClick={handleKeepMine}>Keep mine</button>
+              <button className="btn-small btn-secondary" onClick={handleKeepTheirs}>Keep theirs</button>
+              <button className="btn-small btn-secondary" onClick={handleEditMerged}>Edit merged</button>
+            </div>
+          </div>
+        )}
+
+        {isEditing && (
+          <>
+            <TagPicker tags={tags} selected={editTagIds} onChange={setEditTagIds} />
+            {members.length > 1 && (
+              <AssigneePicker members={members} selected={editAssigneeId} onChange={setEditAssigneeId} />
+            )}
+          </>
+        )}
+
+        {isEditing && series && (
+          // Keep the title input from saving on blur while this is clicked
+          <label className="apply-future" onMouseDown={(e) => e.preventDefault()}>
+            <input
+              type="checkbox"
+              checked={applyToFuture}
+              onChange={(e) => setApplyToFuture(e.target.checked)}
+            />
+            Apply to all future occurrences
+          </label>
+        )}
+
+        {showSubtasks && (
+          <SubtaskList
+            subtasks={subtasks}
+            onAdd={(title) => onAddSubtask(task.id, title)}
+            onUpdate={(id, updates) => onUpdateSubtask(task.id, id, updates)}
+            onDelete={(id) => onDeleteSubtask(task.id, id)}
+            onReorder={(subtaskIds) => onReorderSubtasks(task.id, subtaskIds)}
+            autoComplete={Boolean(task.auto_complete_subtasks)}
+            onToggleAutoComplete={(enabled) => onUpdate(task.id, { auto_complete_subtasks: enabled })}
+            readOnly={readOnly}
+          />
+        )}
+
         <div className="task-meta">
           <span className="task-date">
             Created: {formatDate(task.created_at)}
@@ -133,7 +387,21 @@ export function TaskItem({
               Updated: {formatDate(task.updated_at)}
             </span>
           )}
+          {focusSummary && (
+            <span className="task-focus" title="Completed pomodoros and focused time">
+              🍅 {focusSummary.completed_pomodoros} · {Math.round(focusSummary.focused_seconds / 60)}m
+            </span>
+          )}
+          <button
+            className="history-toggle"
+            onClick={() => setShowHistory(!showHistory)}
+            aria-expanded={showHistory}
+          >
+            {showHistory ? '▾' : '▸'} History
+          </button>
         </div>
+
+        {showHistory && <TaskHistory task={task} />}
       </div>
 
       <div className="task-actions">
@@ -154,22 +422,66 @@ export function TaskItem({
               ✕
             </button>
           </>
-        ) : (
+        ) : isChoosingDeleteScope ? (
           <>
             <button
-              className="btn-small btn-secondary"
-              onClick={handleStartEdit}
-              title="Edit task"
+              className="btn-small btn-danger"
+              onClick={() => onDelete(task.id, 'this')}
+              title="Delete only this occurrence"
             >
-              ✎
+              This
             </button>
             <button
               className="btn-small btn-danger"
-              onClick={() => onDelete(task.id)}
-              title="Delete task"
+              onClick={() => onDelete(task.id, 'future')}
+              title="Delete this and all following occurrences"
+            >
+              All following
+            </button>
+            <button
+              className="btn-small btn-secondary"
+              onClick={() => setIsChoosingDeleteScope(false)}
+              title="Keep the task"
+            >
+              ✕
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              className={`btn-small ${isFocused ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => onFocus(task.id)}
+              title="Focus on this"
+              disabled={isFocused}
             >
-              🗑
+              🎯
             </button>
+            <button
+              className={`btn-small ${showSubtasks ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => setShowSubtasks(!showSubtasks)}
+              title="Checklist"
+            >
+              ☑
+            </button>
+            {!readOnly && (
+              <>
+                <button
+                  className="btn-small btn-secondary"
+                  onClick={handleStartEdit}
+                  title={isLocked ? `${editingNote} this` : "Edit task"}
+                  disabled={isLocked}
+                >
+                  ✎
+                </button>
+                <button
+                  className="btn-small btn-danger"
+                  onClick={handleDelete}
+                  title="Move to trash"
+                >
+                  🗑
+                </button>
+              </>
+            )}
           </>
         )}
       </div>
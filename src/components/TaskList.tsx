@@ -1,20 +1,117 @@
 import { useState } from "react";
 import { Task } from "../database";
+import type { SeriesScope, Subtask, Tag, TaskBatchOperation, TaskFocusSummary, TaskSeries } from "../database";
+import type { SubtaskUpdate, TaskUpdate } from "../schemas";
+import type { Presence } from "../presence";
+import { addDays } from "../dates";
 import { TaskItem } from "./TaskItem";
+import type { EditConflict } from "./TaskItem";
+
+// Drag payload type, so the day tabs can tell a dragged task from other drags
+export const TASK_DRAG_TYPE = "application/x-task-id";
 
 interface TaskListProps {
   tasks: Task[];
-  onUpdate: (id: string, updates: Partial<Task>) => void;
-  onDelete: (id: string) => void;
+  onUpdate: (id: string, updates: TaskUpdate, scope?: SeriesScope, onConflict?: (current: Task) => void) => void;
+  onDelete: (id: string, scope?: SeriesScope) => void;
   onReorder: (taskIds: string[]) => void;
+  onMove: (taskId: string, index: number) => void;
+  onBatch: (operations: TaskBatchOperation[], label: string) => void;
+  activeTaskId: string | null;
+  focusSummaries: { [taskId: string]: TaskFocusSummary };
+  pendingTaskIds: Set<string>; // tasks with changes not yet on the server
+  conflicts: { [taskId: string]: EditConflict }; // edits waiting for a merge
+  onConflictChange: (taskId: string, conflict: EditConflict | null) => void;
+  editorsByTask: { [taskId: string]: Presence[] }; // other people editing them
+  onEditingChange: (taskId: string, isEditing: boolean) => void;
+  onFocus: (id: string) => void;
+  series: { [seriesId: string]: TaskSeries };
+  tags: Tag[];
+  subtasks: { [taskId: string]: Subtask[] };
+  onAddSubtask: (taskId: string, title: string) => void;
+  onUpdateSubtask: (taskId: string, id: string, updates: SubtaskUpdate) => void;
+  onDeleteSubtask: (taskId: string, id: string) => void;
+  onReorderSubtasks: (taskId: string, subtaskIds: string[]) => void;
+  readOnly?: boolean; // shown to viewers of a shared board
+  sortable?: boolean; // off where the list holds only some of a day's tasks
 }
 
-export function TaskList({ tasks, onUpdate, onDelete, onReorder }: TaskListProps) {
+export function TaskList({
+  tasks,
+  onUpdate,
+  onDelete,
+  onReorder,
+  onMove,
+  onBatch,
+  activeTaskId,
+  focusSummaries,
+  pendingTaskIds,
+  conflicts,
+  onConflictChange,
+  editorsByTask,
+  onEditingChange,
+  onFocus,
+  series,
+  tags,
+  subtasks,
+  onAddSubtask,
+  onUpdateSubtask,
+  onDeleteSubtask,
+  onReorderSubtasks,
+  readOnly = false,
+  sortable = true,
+}: TaskListProps) {
   const [draggedTask, setDraggedTask] = useState<string | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [anchorId, setAnchorId] = useState<string | null>(null); // the last task clicked to select
+
+  // Selected tasks that have since left the list just stop counting
+  const selected = tasks.filter(task => selectedIds.includes(task.id));
+
+  // The bulk actions apply to the selection, or without one to the whole list
+  const completable = (selected.length > 0 ? selected : tasks).filter(task => !task.completed);
+  const movable = selected.length > 0 ? selected : tasks.filter(task => !task.completed);
+  const deletable = selected.length > 0 ? selected : tasks.filter(task => task.completed);
+
+  // A shift-click selects or clears everything from the last task clicked to this one
+  const handleSelect = (taskId: string, range: boolean) => {
+    const index = tasks.findIndex(task => task.id === taskId);
+    const anchor = range && anchorId ? tasks.findIndex(task => task.id === anchorId) : -1;
+    const ids = anchor === -1
+      ? [taskId]
+      : tasks.slice(Math.min(anchor, index), Math.max(anchor, index) + 1).map(task => task.id);
+
+    setSelectedIds(prev => (prev.includes(taskId)
+      ? prev.filter(id => !ids.includes(id))
+      : [...new Set([...prev, ...ids])]));
+    setAnchorId(taskId);
+  };
+
+  const runBulk = (operations: TaskBatchOperation[], label: string) => {
+    onBatch(operations, label);
+    setSelectedIds([]);
+    setAnchorId(null);
+  };
+
+  const handleCompleteAll = () => runBulk(
+    completable.map((task): TaskBatchOperation => ({ op: 'update', id: task.id, changes: { completed: true } })),
+    'bulk completion'
+  );
+
+  const handleMoveToTomorrow = () => runBulk(
+    movable.map((task): TaskBatchOperation => ({ op: 'move', id: task.id, day: addDays(task.day, 1) })),
+    'bulk move'
+  );
+
+  const handleDeleteAll = () => runBulk(
+    deletable.map((task): TaskBatchOperation => ({ op: 'delete', id: task.id })),
+    'bulk delete'
+  );
 
   const handleDragStart = (e: React.DragEvent, taskId: string) => {
     setDraggedTask(taskId);
+    e.dataTransfer.setData(TASK_DRAG_TYPE, taskId);
     e.dataTransfer.effectAllowed = 'move';
   };
 
@@ -31,19 +128,27 @@ export function TaskList({ tasks, onUpdate, onDelete, onReorder }: TaskListProps
   const handleDrop = (e: React.DragEvent, dropIndex: number) => {
     e.preventDefault();
     
-    if (!draggedTask) return;
+    // The task may come from another day's list, dragged here over the day tabs
+    const taskId = draggedTask ?? e.dataTransfer.getData(TASK_DRAG_TYPE);
+    if (!taskId) return;
 
-    const dragIndex = tasks.findIndex(task => task.id === draggedTask);
-    if (dragIndex === -1 || dragIndex === dropIndex) {
+    const dragIndex = tasks.findIndex(task => task.id === taskId);
+    if (dragIndex === -1) {
+      onMove(taskId, dropIndex);
       setDraggedTask(null);
       setDragOverIndex(null);
       return;
     }
 
+    if (dragIndex === dropIndex) {
+      setDraggedTask(null);
+      setDragOverIndex(null);
+      return;
+    }
     // Create new order
     const newTasks = [...tasks];
     const [draggedItem] = newTasks.splice(dragIndex, 1);
-    newTasks.splice(dropIndex, 0, draggedItem);
+    newTasks.splice(dropIndex, 0, draggedItem!);
 
     // Update order
     onReorder(newTasks.map(task => task.id));
@@ -59,15 +164,42 @@ export function TaskList({ tasks, onUpdate, onDelete, onReorder }: TaskListProps
 
   if (tasks.length === 0) {
     return (
-      <div className="empty-state">
+      <div
+        className={`empty-state ${dragOverIndex === 0 ? 'drag-over' : ''}`}
+        onDragOver={(e) => handleDragOver(e, 0)}
+        onDragLeave={handleDragLeave}
+        onDrop={(e) => handleDrop(e, 0)}
+      >
         <p>No tasks for this day yet.</p>
-        <p>Add your first task above!</p>
+        {!readOnly && <p>Add your first task above!</p>}
       </div>
     );
   }
 
   return (
     <div className="task-list">
+      {!readOnly && (
+        <div className="bulk-actions">
+          <label className="bulk-select-all">
+            <input
+              type="checkbox"
+              checked={selected.length === tasks.length}
+              onChange={(e) => setSelectedIds(e.target.checked ? tasks.map(task => task.id) : [])}
+            />
+            {selected.length > 0 ? `${selected.length} selected` : 'Select all'}
+          </label>
+          <button className="btn-small btn-secondary" onClick={handleCompleteAll} disabled={completable.length === 0}>
+            ✓ {selected.length > 0 ? 'Complete' : 'Complete all'}
+          </button>
+          <button className="btn-small btn-secondary" onClick={handleMoveToTomorrow} disabled={movable.length === 0}>
+            → {selected.length > 0 ? 'Move to tomorrow' : 'Move unfinished to tomorrow'}
+          </button>
+          <button className="btn-small btn-danger" onClick={handleDeleteAll} disabled={deletable.length === 0}>
+            🗑 {selected.length > 0 ? 'Delete' : 'Delete completed'}
+          </button>
+        </div>
+      )}
+
       {tasks.map((task, index) => (
         <div
           key={task.id}
@@ -80,9 +212,28 @@ export function TaskList({ tasks, onUpdate, onDelete, onReorder }: TaskListProps
             task={task}
             onUpdate={onUpdate}
             onDelete={onDelete}
+            isFocused={activeTaskId === task.id}
+            focusSummary={focusSummaries[task.id]}
+            isPending={pendingTaskIds.has(task.id)}
+            conflict={conflicts[task.id]}
+            onConflictChange={(conflict) => onConflictChange(task.id, conflict)}
+            isSelected={selectedIds.includes(task.id)}
+            onSelect={(range) => handleSelect(task.id, range)}
+            editors={editorsByTask[task.id] ?? []}
+            onEditingChange={(isEditing) => onEditingChange(task.id, isEditing)}
+            series={task.series_id ? series[task.series_id] : undefined}
+            tags={tags}
+            onFocus={onFocus}
+            subtasks={subtasks[task.id] ?? []}
+            onAddSubtask={onAddSubtask}
+            onUpdateSubtask={onUpdateSubtask}
+            onDeleteSubtask={onDeleteSubtask}
+            onReorderSubtasks={onReorderSubtasks}
             isDragging={draggedTask === task.id}
             onDragStart={(e) => handleDragStart(e, task.id)}
             onDragEnd={handleDragEnd}
+            readOnly={readOnly}
+            sortable={sortable}
           />
         </div>
       ))}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import type { TimerPreferences, TimerPreferencesUpdate } from "../database";
+
+interface TimerSettingsProps {
+  preferences: TimerPreferences;
+  onSave: (updates: TimerPreferencesUpdate) => void;
+  onCancel: () => void;
+}
+
+export function TimerSettings({ preferences, onSave, onCancel }: TimerSettingsProps) {
+  const [workDuration, setWorkDuration] = useState(preferences.work_duration);
+  const [shortBreakDuration, setShortBreakDuration] = useState(preferences.short_break_duration);
+  const [longBreakDuration, setLongBreakDuration] = useState(preferences.long_break_duration);
+  const [sessionsUntilLongBreak, setSessionsUntilLongBreak] = useState(preferences.sessions_until_long_break);
+  const [autoStartBreaks, setAutoStartBreaks] = useState(preferences.auto_start_breaks);
+  const [autoStartPomodoros, setAutoStartPomodoros] = useState(preferences.auto_start_pomodoros);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(preferences.notifications_enabled);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    onSave({
+      work_duration: workDuration,
+      short_break_duration: shortBreakDuration,
+      long_break_duration: longBreakDuration,
+      sessions_until_long_break: sessionsUntilLongBreak,
+      auto_start_breaks: autoStartBreaks,
+      auto_start_pomodoros: autoStartPomodoros,
+      notifications_enabled: notificationsEnabled,
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <form className="timer-settings" onSubmit={handleSubmit} onKeyDown={handleKeyDown}>
+      <div className="settings-grid">
+        <label>
+          Work (minutes)
+          <input
+            type="number"
+            min={1}
+            max={180}
+            value={workDuration}
+            onChange={(e) => setWorkDuration(Number(e.target.value))}
+            required
+          />
+        </label>
+        <label>
+          Short break (minutes)
+          <input
+            type="number"
+            min={1}
+            max={180}
+            value={shortBreakDuration}
+            onChange={(e) => setShortBreakDuration(Number(e.target.value))}
+            required
+          />
+        </label>
+        <label>
+          Long break (minutes)
+          <input
+            type="number"
+            min={1}
+            max={180}
+            value={longBreakDuration}
+            onChange={(e) => setLongBreakDuration(Number(e.target.value))}
+            required
+          />
+        </label>
+        <label>
+          Sessions until long break
+          <input
+            type="number"
+            min={1}
+            max={12}
+            value={sessionsUntilLongBreak}
+            onChange={(e) => setSessionsUntilLongBreak(Number(e.target.value))}
+            required
+          />
+        </label>
+      </div>
+
+      <div className="settings-toggles">
+        <label>
+          <input
+            type="checkbox"
+            checked={autoStartBreaks}
+            onChange={(e) => setAutoStartBreaks(e.target.checked)}
+          />
+          Auto-start breaks
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={autoStartPomodoros}
+            onChange={(e) => setAutoStartPomodoros(e.target.checked)}
+          />
+          Auto-start pomodoros
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={notificationsEnabled}
+            onChange={(e) => setNotificationsEnabled(e.target.checked)}
+          />
+          Desktop notifications
+        </label>
+      </div>
+
+      <div className="form-actions">
+        <button type="submit" className="btn-primary">
+          Save
+        </button>
+        <button type="button" className="btn-secondary" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
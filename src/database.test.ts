@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { TodoDatabase } from "./database";
+
+let board: TodoDatabase;
+
+const addTask = (title: string, day: string) =>
+  board.createTask({ title, description: null, day, priority: 1, completed: false, tag_ids: [] });
+
+beforeEach(() => {
+  const root = new TodoDatabase(":memory:");
+  const user = root.forUser(root.createUser({ email: "ada@example.com", name: "Ada", password_hash: "x" }).id);
+  board = user.onBoard(user.getBoards()[0]!.id);
+});
+
+describe("applyTaskBatch", () => {
+  test("updates, moves and deletes in one go", () => {
+    const write = addTask("Write", "2026-10-19");
+    const read = addTask("Read", "2026-10-19");
+    const call = addTask("Call", "2026-10-20");
+
+    const result = board.applyTaskBatch([
+      { op: "update", id: write.id, changes: { completed: true } },
+      { op: "move", id: read.id, day: "2026-10-20" },
+      { op: "delete", id: call.id },
+    ]);
+
+    expect(result.tasks.map(task => [task.title, task.day, Boolean(task.completed)])).toEqual([
+      ["Write", "2026-10-19", true],
+      ["Read", "2026-10-20", false],
+    ]);
+    expect(result.deletedIds).toEqual([call.id]);
+    expect(result.order).toEqual([
+      { day: "2026-10-19", taskIds: [write.id] },
+      { day: "2026-10-20", taskIds: [read.id] },
+    ]);
+    expect(board.getTask(call.id)).toBeNull();
+  });
+
+  test("applies nothing when a later operation's task is missing", () => {
+    const write = addTask("Write", "2026-10-19");
+    const read = addTask("Read", "2026-10-19");
+
+    expect(() =>
+      board.applyTaskBatch([
+        { op: "update", id: write.id, changes: { completed: true } },
+        { op: "delete", id: read.id },
+        { op: "move", id: "missing", day: "2026-10-20" },
+      ])
+    ).toThrow("Task missing not found");
+
+    expect(board.getTask(write.id)?.completed).toBeFalsy();
+    expect(board.getTask(read.id)).not.toBeNull();
+  });
+});
+
+describe("accounts", () => {
+  test("refuse a second sign-up with the same email", () => {
+    const root = new TodoDatabase(":memory:");
+    root.createUser({ email: "grace@example.com", name: "Grace", password_hash: "x" });
+
+    expect(() =>
+      root.createUser({ email: "Grace@Example.com", name: "Someone else", password_hash: "y" })
+    ).toThrow("Email already registered");
+    expect(root.getUserIds()).toHaveLength(1);
+  });
+
+  test("find a user's credentials to log in with", async () => {
+    const root = new TodoDatabase(":memory:");
+    const user = root.createUser({
+      email: "grace@example.com",
+      name: "Grace",
+      password_hash: await Bun.password.hash("hopper123"),
+    });
+
+    const credentials = root.getUserCredentials("grace@example.com")!;
+    expect(credentials.id).toBe(user.id);
+    expect(await Bun.password.verify("hopper123", credentials.password_hash)).toBe(true);
+    expect(await Bun.password.verify("wrong", credentials.password_hash)).toBe(false);
+    expect(root.getUserCredentials("nobody@example.com")).toBeNull();
+  });
+
+  test("sign a session in until it's deleted or expires", () => {
+    const root = new TodoDatabase(":memory:");
+    const user = root.createUser({ email: "grace@example.com", name: "Grace", password_hash: "x" });
+    root.createSession("current", user.id, new Date(Date.now() + 60_000).toISOString());
+    root.createSession("expired", user.id, new Date(Date.now() - 60_000).toISOString());
+
+    expect(root.getSessionUser("current")?.id).toBe(user.id);
+    expect(root.getSessionUser("expired")).toBeNull();
+    expect(root.purgeExpiredSessions()).toBe(1);
+
+    expect(root.deleteSession("current")).toBe(true);
+    expect(root.getSessionUser("current")).toBeNull();
+  });
+});
@@ -1,30 +1,238 @@
-import { Database } from "bun:sqlite";
+import { Database, SQLiteError } from "bun:sqlite";
+import { addDays } from "./dates";
+import { expandRecurrence } from "./recurrence";
+import type { RecurrenceRule } from "./recurrence";
+import { HIGHLIGHT_END, HIGHLIGHT_START } from "./search";
+import { migrate } from "./migrations";
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  created_at: string;
+}
+
+// A user as stored, for checking their password at login
+export interface UserCredentials extends User {
+  password_hash: string;
+}
+
+export type BoardRole = 'owner' | 'editor' | 'viewer';
+
+export interface Board {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A board as one of its members sees it
+export interface BoardSummary extends Board {
+  role: BoardRole;
+}
+
+export interface BoardMember {
+  user_id: string;
+  name: string;
+  email: string;
+  role: BoardRole;
+  joined_at: string;
+}
+
+export interface BoardInvite {
+  id: string; // the token in the invite link
+  board_id: string;
+  role: Exclude<BoardRole, 'owner'>;
+  created_by: string;
+  created_at: string;
+  expires_at: string;
+}
 
 export interface Task {
   id: string;
   title: string;
-  description?: string;
-  day: string; // 'monday', 'tuesday', etc.
+  description?: string | null;
+  day: string; // ISO date, 'YYYY-MM-DD'
   priority: number; // 1 (highest) to n (lowest)
   completed: boolean;
+  series_id?: string | null; // set on occurrences of a recurring task
+  auto_complete_subtasks?: boolean; // complete the task once every subtask is done
+  assignee_id?: string | null; // the board member responsible for it
+  tag_ids?: string[];
+  // Goes up with every edit, so a client can tell its copy has gone stale
+  version?: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null; // set while the task is in the trash
+}
+
+// Narrows lists of tasks; a filter left out matches every task
+export interface TaskFilter {
+  tagId?: string;
+  assigneeId?: string;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: string; // '#rrggbb'
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SearchResult {
+  task: Task;
+  title: string; // the task's title, with matches marked (see search.ts)
+  snippet: string | null; // the part of the description around its matches
+}
+
+export interface Subtask {
+  id: string;
+  task_id: string;
+  title: string;
+  completed: boolean;
+  position: number; // 1-based order within the task
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskSeries {
+  id: string;
+  title: string;
+  description?: string | null;
+  rule: RecurrenceRule;
+  start_date: string;
+  generated_until: string; // occurrences have been created up to this date
   created_at: string;
   updated_at: string;
 }
 
+// The new order of both days after a task moves between them
+export interface TaskMove {
+  task: Task;
+  from: { day: string; taskIds: string[] };
+  to: { day: string; taskIds: string[] };
+}
+
+// One step of a batch of task changes, see applyTaskBatch
+export type TaskBatchOperation =
+  | { op: 'update'; id: string; changes: Partial<Pick<Task, 'completed' | 'assignee_id'>> }
+  | { op: 'move'; id: string; day: string }
+  | { op: 'delete'; id: string };
+
+export interface TaskBatchResult {
+  tasks: Task[]; // the ones changed or moved, as they ended up
+  deletedIds: string[];
+  order: { day: string; taskIds: string[] }[]; // every day it touched, in order
+}
+
+// Which occurrences of a recurring task an edit or delete applies to
+export type SeriesScope = 'this' | 'future';
+
+// Tasks created, changed and removed by one operation on a recurring series
+export interface SeriesChange {
+  tasks: Task[];
+  deletedIds: string[];
+  series: TaskSeries[];
+}
+
+// A change to one of the task's fields, or the task being created, trashed or restored
+export type TaskHistoryChange = 'created' | 'deleted' | 'restored' | (typeof HISTORY_FIELDS)[number];
+
+export interface TaskHistoryEntry {
+  id: number;
+  task_id: string;
+  change: TaskHistoryChange;
+  old_value: string | number | boolean | null; // both null unless a field changed
+  new_value: string | number | boolean | null;
+  changed_at: string;
+}
+
+export type ActivityAction = 'create' | 'update' | 'delete' | 'restore' | 'reorder' | 'move' | 'batch';
+
+// A task as it stood at some point, with the subtasks it had then
+export interface TaskSnapshot extends Task {
+  subtasks: Subtask[];
+}
+
+// The tasks and series an operation touched, as they were before or after it
+export interface ActivityState {
+  tasks: TaskSnapshot[];
+  series: TaskSeries[];
+}
+
+// One task operation in the activity log, kept so it can be undone and redone
+export interface Activity {
+  id: string;
+  action: ActivityAction;
+  task_id: string | null; // the task operated on; null for a reorder or a batch
+  before: ActivityState;
+  after: ActivityState;
+  created_at: string;
+  undone_at: string | null;
+}
+
+// What undoing or redoing an activity changed
+export interface ActivityRevert extends SeriesChange {
+  activity: Activity;
+  subtasks: Subtask[]; // of the tasks that were brought back
+  order: { day: string; taskIds: string[] }[]; // every day it touched, in order
+}
+
+export type PomodoroSessionType = 'work' | 'short_break' | 'long_break';
+
+export type PomodoroOutcome = 'completed' | 'abandoned';
+
 export interface PomodoroSession {
   id: string;
   task_id: string | null;
   duration: number; // in seconds
   started_at: string;
   completed_at: string | null;
-  type: 'work' | 'short_break' | 'long_break';
+  type: PomodoroSessionType;
+  outcome: PomodoroOutcome | null; // null while the session is in progress
+  abandoned_at: string | null;
+  interruption_reason: string | null;
+  focused_seconds: number | null; // time actually run, excluding pauses; set when the session ends
+}
+
+export type NewPomodoroSession = Pick<PomodoroSession, "task_id" | "duration" | "started_at" | "completed_at" | "type">;
+
+export interface PomodoroPause {
+  id: string;
+  session_id: string;
+  paused_at: string;
+  resumed_at: string | null;
+}
+
+export interface TaskFocusSummary {
+  task_id: string;
+  completed_pomodoros: number;
+  focused_seconds: number;
+}
+
+// Pomodoros on a board's tasks, by whoever ran them
+export interface PersonFocus {
+  user_id: string;
+  name: string;
+  completed_pomodoros: number;
+  focused_seconds: number;
+}
+
+export interface PomodoroStats {
+  range: { from: string; to: string }; // local dates, inclusive
+  daily: { day: string; focused_seconds: number; completed_pomodoros: number }[];
+  weekdays: { weekday: number; focused_seconds: number }[]; // 0 = Sunday
+  outcomes: { completed: number; abandoned: number; completion_rate: number };
+  streaks: { current: number; best: number }; // consecutive days with a completed pomodoro, all time
+  top_tasks: { task_id: string; title: string; focused_seconds: number; completed_pomodoros: number }[];
 }
 
 export interface TimerPreferences {
   id: string;
-  work_duration: number;
-  short_break_duration: number;
-  long_break_duration: number;
+  work_duration: number; // in minutes
+  short_break_duration: number; // in minutes
+  long_break_duration: number; // in minutes
   sessions_until_long_break: number;
   auto_start_breaks: boolean;
   auto_start_pomodoros: boolean;
@@ -32,53 +240,502 @@ export interface TimerPreferences {
   updated_at: string;
 }
 
-class TodoDatabase {
+export interface TimerState {
+  id: string;
+  status: 'idle' | 'running' | 'paused';
+  type: PomodoroSessionType;
+  session_id: string | null; // the pomodoro_sessions row of the current run
+  task_id: string | null; // the task being focused on, kept across breaks
+  duration: number; // in seconds
+  started_at: string | null;
+  paused_at: string | null;
+  paused_seconds: number; // time spent paused since started_at
+  session_count: number; // completed work sessions
+  updated_at: string;
+}
+
+export type TimerPreferencesUpdate = Partial<Omit<TimerPreferences, "id" | "updated_at">>;
+
+const DEFAULT_TIMER_PREFERENCES: Omit<TimerPreferences, "id" | "updated_at"> = {
+  work_duration: 25,
+  short_break_duration: 5,
+  long_break_duration: 15,
+  sessions_until_long_break: 4,
+  auto_start_breaks: false,
+  auto_start_pomodoros: false,
+  notifications_enabled: true,
+};
+
+// Tasks are read with their tag ids, which SQLite hands back as a JSON array
+const TASK_COLUMNS = `
+  tasks.*, (SELECT json_group_array(tag_id) FROM task_tags WHERE task_id = tasks.id) AS tag_ids
+`;
+
+// Rows on the boards the scoped user is a member of, narrowed to one board
+// when the instance is scoped to it (see onBoard)
+const BOARD_SCOPE = `
+  board_id IN (
+    SELECT board_id FROM board_members
+    WHERE user_id = $user_id AND ($board_id IS NULL OR board_id = $board_id)
+  )
+`;
+
+// The tasks in scope, for tables that only reach a board through one
+const BOARD_TASK_IDS = `(SELECT id FROM tasks WHERE ${BOARD_SCOPE})`;
+
+// Matches every task when $tag_id and $assignee_id are null
+const TASK_FILTER = `
+  ($tag_id IS NULL OR EXISTS (SELECT 1 FROM task_tags WHERE task_id = tasks.id AND tag_id = $tag_id))
+  AND ($assignee_id IS NULL OR assignee_id = $assignee_id)
+`;
+
+const filterParams = ({ tagId, assigneeId }: TaskFilter) => ({
+  $tag_id: tagId ?? null,
+  $assignee_id: assigneeId ?? null,
+});
+
+// The columns updateTask may set; ids, timestamps and tags are managed here
+const TASK_UPDATE_COLUMNS = [
+  "title",
+  "description",
+  "day",
+  "priority",
+  "completed",
+  "series_id",
+  "auto_complete_subtasks",
+  "assignee_id",
+] as const;
+
+type TaskChanges = Partial<Pick<Task, (typeof TASK_UPDATE_COLUMNS)[number]>>;
+
+// The fields whose changes are kept in a task's history
+const HISTORY_FIELDS = ["title", "description", "completed", "priority", "day", "assignee_id"] as const;
+
+type TaskHistoryRow = Omit<TaskHistoryEntry, "old_value" | "new_value"> & {
+  old_value: string | null;
+  new_value: string | null;
+};
+
+const toHistoryEntry = (row: TaskHistoryRow): TaskHistoryEntry => ({
+  ...row,
+  old_value: row.old_value === null ? null : JSON.parse(row.old_value),
+  new_value: row.new_value === null ? null : JSON.parse(row.new_value),
+});
+
+// Completion is kept as a boolean rather than SQLite's 0 or 1
+const historyValue = (task: Task, field: (typeof HISTORY_FIELDS)[number]) =>
+  field === "completed" ? Boolean(task.completed) : task[field] ?? null;
+
+type TaskRow = Omit<Task, "tag_ids"> & { tag_ids: string };
+
+const toTask = (row: TaskRow): Task => ({ ...row, tag_ids: JSON.parse(row.tag_ids) });
+
+type ActivityRow = Omit<Activity, "before" | "after"> & { before: string; after: string };
+
+const toActivity = (row: ActivityRow): Activity => ({
+  ...row,
+  before: JSON.parse(row.before),
+  after: JSON.parse(row.after),
+});
+
+type TaskField = (typeof TASK_UPDATE_COLUMNS)[number] | "tag_ids";
+
+// Booleans come back from SQLite as 0 or 1, and tags in no particular order
+function sameValue(a: Task, b: Task, field: TaskField): boolean {
+  if (field === "tag_ids") {
+    return [...(a.tag_ids ?? [])].sort().join() === [...(b.tag_ids ?? [])].sort().join();
+  }
+  const normalize = (value: unknown) => (typeof value === "boolean" ? Number(value) : value ?? null);
+  return normalize(a[field]) === normalize(b[field]);
+}
+
+// When `day` begins, as a UTC timestamp like started_at, for a viewer whose
+// clock is `tzOffset` minutes behind UTC
+const localDayStart = (day: string, tzOffset: number) =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + tzOffset * 60_000).toISOString();
+
+const changedTaskFields = (a: Task, b: Task): TaskField[] =>
+  [...TASK_UPDATE_COLUMNS, "tag_ids" as const].filter(field => !sameValue(a, b, field));
+
+/**
+ * The app's data. Tasks, tags, series and the activity log belong to a board,
+ * and pomodoros to a user. The methods for them only see what the user the
+ * instance is scoped to may (see forUser and onBoard); the shared instance
+ * exported below only handles accounts and sessions.
+ */
+export class TodoDatabase {
   private db: Database;
 
-  constructor(filename = "todos.db") {
-    this.db = new Database(filename);
-    this.init();
+  constructor(
+    source: string | Database = "todos.db",
+    private readonly ownerId: string | null = null,
+    private readonly scopedBoardId: string | null = null,
+  ) {
+    if (typeof source === "string") {
+      this.db = new Database(source);
+      this.init();
+    } else {
+      this.db = source;
+    }
+  }
+
+  // A view of the same database that only sees and changes `userId`'s data
+  forUser(userId: string): TodoDatabase {
+    return new TodoDatabase(this.db, userId);
+  }
+
+  // Failing here keeps an unscoped instance from reading or writing anyone's data
+  private get userId(): string {
+    if (!this.ownerId) {
+      throw new Error("This operation needs a database scoped to a user; see forUser");
+    }
+    return this.ownerId;
+  }
+
+  // A view that only sees and changes one of the user's boards; membership is
+  // checked by every query, so a board the user isn't on shows up empty
+  onBoard(boardId: string): TodoDatabase {
+    return new TodoDatabase(this.db, this.userId, boardId);
+  }
+
+  // The board new tasks, tags, series and log entries go on
+  private get boardId(): string {
+    if (!this.scopedBoardId) {
+      throw new Error("This operation needs a database scoped to a board; see onBoard");
+    }
+    return this.scopedBoardId;
+  }
+
+  // The bindings BOARD_SCOPE reads
+  private get scope() {
+    return { $user_id: this.userId, $board_id: this.scopedBoardId };
   }
 
   private init() {
     // Enable WAL mode for better performance
     this.db.exec("PRAGMA journal_mode = WAL;");
-    
-    // Create tables
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        description TEXT,
-        day TEXT NOT NULL,
-        priority INTEGER NOT NULL DEFAULT 1,
-        completed BOOLEAN NOT NULL DEFAULT FALSE,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-    `);
-
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS pomodoro_sessions (
-        id TEXT PRIMARY KEY,
-        task_id TEXT,
-        duration INTEGER NOT NULL,
-        started_at TEXT NOT NULL,
-        completed_at TEXT,
-        type TEXT NOT NULL,
-        FOREIGN KEY (task_id) REFERENCES tasks (id) ON DELETE SET NULL
-      );
-    `);
-
-    // Create indexes for better performance
-    this.db.exec("CREATE INDEX IF NOT EXISTS idx_tasks_day ON tasks (day);");
-    this.db.exec("CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks (priority);");
-    this.db.exec("CREATE INDEX IF NOT EXISTS idx_pomodoro_task ON pomodoro_sessions (task_id);");
-  }
-
-  // Task operations
-  createTask(task: Omit<Task, "id" | "created_at" | "updated_at">): Task {
-    const id = crypto.randomUUID();
+
+    const { from, to, backup } = migrate(this.db);
+    if (from !== to) {
+      console.log(`Migrated database from schema version ${from} to ${to}`);
+    }
+    if (backup) {
+      console.log(`Backed up the previous database to ${backup}`);
+    }
+  }
+
+  // User operations
+  createUser(user: Pick<UserCredentials, "email" | "name" | "password_hash">): User {
+    const transaction = this.db.transaction(() => {
+      const newUser: User = {
+        id: crypto.randomUUID(),
+        email: user.email,
+        name: user.name,
+        created_at: new Date().toISOString(),
+      };
+      const isFirst = !this.db.query("SELECT 1 FROM users LIMIT 1").get();
+
+      const query = this.db.query(`
+        INSERT INTO users (id, email, name, password_hash, created_at)
+        VALUES ($id, $email, $name, $password_hash, $created_at)
+      `);
+
+      try {
+        query.run({
+          $id: newUser.id,
+          $email: newUser.email,
+          $name: newUser.name,
+          $password_hash: user.password_hash,
+          $created_at: newUser.created_at,
+        });
+      } catch (error) {
+        // Another sign-up with the address got in first
+        if (error instanceof SQLiteError && error.code === "SQLITE_CONSTRAINT_UNIQUE") {
+          throw new Error("Email already registered");
+        }
+        throw error;
+      }
+
+      const board = this.forUser(newUser.id).createBoard(`${newUser.name}'s board`);
+      if (isFirst) {
+        this.claimUnownedData(newUser.id, board.id);
+      }
+      return newUser;
+    });
+
+    return transaction();
+  }
+
+  // Hands everything from before there were accounts to the first one, on
+  // their own board
+  private claimUnownedData(userId: string, boardId: string) {
+    const params = { $user_id: userId, $board_id: boardId };
+    for (const table of ["tasks", "task_series", "activity_log"]) {
+      this.db.query(`UPDATE ${table} SET board_id = $board_id, user_id = $user_id WHERE board_id IS NULL`)
+        .run(params);
+    }
+    this.db.query("UPDATE tags SET board_id = $board_id WHERE board_id IS NULL").run({ $board_id: boardId });
+    this.db.query("UPDATE pomodoro_sessions SET user_id = $user_id WHERE user_id IS NULL").run({ $user_id: userId });
+    for (const table of ["timer_preferences", "timer_state"]) {
+      this.db.query(`UPDATE ${table} SET id = $user_id WHERE id = 'default'`).run({ $user_id: userId });
+    }
+  }
+
+  getUser(id: string): User | null {
+    const query = this.db.query("SELECT id, email, name, created_at FROM users WHERE id = $id");
+    return query.get({ $id: id }) as User | null;
+  }
+
+  // Emails are matched case-insensitively
+  getUserCredentials(email: string): UserCredentials | null {
+    const query = this.db.query("SELECT * FROM users WHERE email = $email");
+    return query.get({ $email: email }) as UserCredentials | null;
+  }
+
+  getUserIds(): string[] {
+    const query = this.db.query("SELECT id FROM users ORDER BY created_at ASC");
+    return (query.all() as { id: string }[]).map(row => row.id);
+  }
+
+  // Session operations; `tokenHash` is a hash of the token the client holds
+  createSession(tokenHash: string, userId: string, expiresAt: string) {
+    const query = this.db.query(`
+      INSERT INTO sessions (id, user_id, created_at, expires_at)
+      VALUES ($id, $user_id, $created_at, $expires_at)
+    `);
+
+    query.run({
+      $id: tokenHash,
+      $user_id: userId,
+      $created_at: new Date().toISOString(),
+      $expires_at: expiresAt,
+    });
+  }
+
+  // The user signed in with the session, unless it has expired
+  getSessionUser(tokenHash: string): User | null {
+    const query = this.db.query(`
+      SELECT users.id, users.email, users.name, users.created_at
+      FROM sessions JOIN users ON users.id = sessions.user_id
+      WHERE sessions.id = $id AND sessions.expires_at > $now
+    `);
+    return query.get({ $id: tokenHash, $now: new Date().toISOString() }) as User | null;
+  }
+
+  deleteSession(tokenHash: string): boolean {
+    const query = this.db.query("DELETE FROM sessions WHERE id = $id");
+    return query.run({ $id: tokenHash }).changes > 0;
+  }
+
+  purgeExpiredSessions(): number {
+    const query = this.db.query("DELETE FROM sessions WHERE expires_at <= $now");
+    return query.run({ $now: new Date().toISOString() }).changes;
+  }
+
+  // Board operations; these see the boards the scoped user is a member of
+  getBoards(): BoardSummary[] {
+    const query = this.db.query(`
+      SELECT boards.*, board_members.role
+      FROM boards JOIN board_members ON board_members.board_id = boards.id
+      WHERE board_members.user_id = $user_id
+      ORDER BY boards.created_at ASC
+    `);
+    return query.all({ $user_id: this.userId }) as BoardSummary[];
+  }
+
+  getBoard(id: string): BoardSummary | null {
+    const query = this.db.query(`
+      SELECT boards.*, board_members.role
+      FROM boards JOIN board_members ON board_members.board_id = boards.id
+      WHERE boards.id = $id AND board_members.user_id = $user_id
+    `);
+    return query.get({ $id: id, $user_id: this.userId }) as BoardSummary | null;
+  }
+
+  // The scoped user owns the new board
+  createBoard(name: string): BoardSummary {
+    const now = new Date().toISOString();
+    const board: BoardSummary = { id: crypto.randomUUID(), name, role: 'owner', created_at: now, updated_at: now };
+
+    const transaction = this.db.transaction(() => {
+      this.db.query(`
+        INSERT INTO boards (id, name, created_at, updated_at)
+        VALUES ($id, $name, $created_at, $updated_at)
+      `).run({ $id: board.id, $name: board.name, $created_at: now, $updated_at: now });
+      this.addMember(board.id, this.userId, 'owner');
+    });
+    transaction();
+
+    return board;
+  }
+
+  updateBoard(id: string, name: string): BoardSummary | null {
+    const query = this.db.query(`
+      UPDATE boards SET name = $name, updated_at = $updated_at
+      WHERE id = $id AND id IN (SELECT board_id FROM board_members WHERE user_id = $user_id)
+    `);
+    query.run({ $id: id, $name: name, $updated_at: new Date().toISOString(), $user_id: this.userId });
+    return this.getBoard(id);
+  }
+
+  // Removes the board and everything on it, trash included
+  deleteBoard(id: string): boolean {
+    if (!this.getBoard(id)) {
+      return false;
+    }
+
+    const transaction = this.db.transaction(() => {
+      const params = { $board_id: id };
+      const taskIds = "(SELECT id FROM tasks WHERE board_id = $board_id)";
+      for (const table of ["subtasks", "task_tags", "task_history", "tasks_fts"]) {
+        this.db.query(`DELETE FROM ${table} WHERE task_id IN ${taskIds}`).run(params);
+      }
+      for (const table of ["tasks", "task_series", "activity_log", "tags", "board_invites", "board_members"]) {
+        this.db.query(`DELETE FROM ${table} WHERE board_id = $board_id`).run(params);
+      }
+      this.db.query("DELETE FROM boards WHERE id = $board_id").run(params);
+    });
+    transaction();
+
+    return true;
+  }
+
+  getBoardMembers(boardId: string): BoardMember[] {
+    const query = this.db.query(`
+      SELECT users.id AS user_id, users.name, users.email, board_members.role, board_members.joined_at
+      FROM board_members JOIN users ON users.id = board_members.user_id
+      WHERE board_members.board_id = $board_id
+        AND $board_id IN (SELECT board_id FROM board_members WHERE user_id = $user_id)
+      ORDER BY board_members.joined_at ASC
+    `);
+    return query.all({ $board_id: boardId, $user_id: this.userId }) as BoardMember[];
+  }
+
+  private addMember(boardId: string, userId: string, role: BoardRole) {
+    this.db.query(`
+      INSERT INTO board_members (board_id, user_id, role, joined_at)
+      VALUES ($board_id, $user_id, $role, $joined_at)
+    `).run({ $board_id: boardId, $user_id: userId, $role: role, $joined_at: new Date().toISOString() });
+  }
+
+  private countOwners(boardId: string): number {
+    const query = this.db.query("SELECT COUNT(*) AS count FROM board_members WHERE board_id = $board_id AND role = 'owner'");
+    return (query.get({ $board_id: boardId }) as { count: number }).count;
+  }
+
+  /**
+   * Changes a member's role. Returns null when they aren't a member, and
+   * throws rather than leave the board without an owner.
+   */
+  setMemberRole(boardId: string, userId: string, role: BoardRole): BoardMember | null {
+    const member = this.getBoardMembers(boardId).find(member => member.user_id === userId);
+    if (!member) {
+      return null;
+    }
+    if (member.role === 'owner' && role !== 'owner' && this.countOwners(boardId) === 1) {
+      throw new Error("A board needs at least one owner");
+    }
+
+    this.db.query("UPDATE board_members SET role = $role WHERE board_id = $board_id AND user_id = $user_id")
+      .run({ $role: role, $board_id: boardId, $user_id: userId });
+    return { ...member, role };
+  }
+
+  // Throws like setMemberRole when the last owner would leave
+  removeMember(boardId: string, userId: string): boolean {
+    const member = this.getBoardMembers(boardId).find(member => member.user_id === userId);
+    if (!member) {
+      return false;
+    }
+    if (member.role === 'owner' && this.countOwners(boardId) === 1) {
+      throw new Error("A board needs at least one owner");
+    }
+
+    const query = this.db.query("DELETE FROM board_members WHERE board_id = $board_id AND user_id = $user_id");
+    return query.run({ $board_id: boardId, $user_id: userId }).changes > 0;
+  }
+
+  // Invites are made by the scoped user; the token is the invite's id
+  createInvite(boardId: string, role: BoardInvite["role"], expiresAt: string): BoardInvite {
+    const invite: BoardInvite = {
+      id: crypto.randomUUID(),
+      board_id: boardId,
+      role,
+      created_by: this.userId,
+      created_at: new Date().toISOString(),
+      expires_at: expiresAt,
+    };
+
+    const query = this.db.query(`
+      INSERT INTO board_invites (id, board_id, role, created_by, created_at, expires_at)
+      VALUES ($id, $board_id, $role, $created_by, $created_at, $expires_at)
+    `);
+
+    query.run({
+      $id: invite.id,
+      $board_id: invite.board_id,
+      $role: invite.role,
+      $created_by: invite.created_by,
+      $created_at: invite.created_at,
+      $expires_at: invite.expires_at,
+    });
+
+    return invite;
+  }
+
+  // The board's invites that haven't expired
+  getInvites(boardId: string): BoardInvite[] {
+    const query = this.db.query(`
+      SELECT * FROM board_invites
+      WHERE board_id = $board_id AND expires_at > $now
+        AND $board_id IN (SELECT board_id FROM board_members WHERE user_id = $user_id)
+      ORDER BY created_at DESC
+    `);
+    return query.all({ $board_id: boardId, $now: new Date().toISOString(), $user_id: this.userId }) as BoardInvite[];
+  }
+
+  // Anyone with the link may look at an invite, so this isn't scoped
+  getInvite(token: string): (BoardInvite & { board_name: string }) | null {
+    const query = this.db.query(`
+      SELECT board_invites.*, boards.name AS board_name
+      FROM board_invites JOIN boards ON boards.id = board_invites.board_id
+      WHERE board_invites.id = $id AND board_invites.expires_at > $now
+    `);
+    return query.get({ $id: token, $now: new Date().toISOString() }) as (BoardInvite & { board_name: string }) | null;
+  }
+
+  deleteInvite(boardId: string, token: string): boolean {
+    const query = this.db.query(`
+      DELETE FROM board_invites
+      WHERE id = $id AND board_id = $board_id
+        AND board_id IN (SELECT board_id FROM board_members WHERE user_id = $user_id)
+    `);
+    return query.run({ $id: token, $board_id: boardId, $user_id: this.userId }).changes > 0;
+  }
+
+  /**
+   * Adds the scoped user to the invite's board. Links can be shared, so
+   * they're not used up; members keep their role unless the invite's is higher.
+   */
+  acceptInvite(token: string): BoardSummary | null {
+    const invite = this.getInvite(token);
+    if (!invite) {
+      return null;
+    }
+
+    const current = this.getBoard(invite.board_id);
+    if (!current) {
+      this.addMember(invite.board_id, this.userId, invite.role);
+    } else if (current.role === 'viewer' && invite.role === 'editor') {
+      this.db.query("UPDATE board_members SET role = $role WHERE board_id = $board_id AND user_id = $user_id")
+        .run({ $role: invite.role, $board_id: invite.board_id, $user_id: this.userId });
+    }
+    return this.getBoard(invite.board_id);
+  }
+
+  // Task operations; the id may be picked by the client (see isTaskIdTaken)
+  createTask(task: Omit<Task, "id" | "created_at" | "updated_at"> & { id?: string }): Task {
+    const id = task.id ?? crypto.randomUUID();
     const now = new Date().toISOString();
     const newTask: Task = {
       ...task,
@@ -87,91 +744,1060 @@ class TodoDatabase {
       updated_at: now,
     };
 
+    const created = this.insertTask(newTask);
+    this.recordHistory(created.id, "created", null, null, now);
+    return created;
+  }
+
+  // Writes a complete task, id and timestamps included, with its tags
+  private insertTask(task: Task): Task {
     const query = this.db.query(`
-      INSERT INTO tasks (id, title, description, day, priority, completed, created_at, updated_at)
-      VALUES ($id, $title, $description, $day, $priority, $completed, $created_at, $updated_at)
+      INSERT INTO tasks (
+        id, board_id, user_id, title, description, day, priority, completed, series_id,
+        auto_complete_subtasks, assignee_id, version, created_at, updated_at
+      )
+      VALUES (
+        $id, $board_id, $user_id, $title, $description, $day, $priority, $completed, $series_id,
+        $auto_complete_subtasks, $assignee_id, $version, $created_at, $updated_at
+      )
     `);
 
     query.run({
-      $id: newTask.id,
-      $title: newTask.title,
-      $description: newTask.description,
-      $day: newTask.day,
-      $priority: newTask.priority,
-      $completed: newTask.completed,
-      $created_at: newTask.created_at,
-      $updated_at: newTask.updated_at,
+      $id: task.id,
+      $board_id: this.boardId,
+      $user_id: this.userId,
+      $title: task.title,
+      $description: task.description ?? null,
+      $day: task.day,
+      $priority: task.priority,
+      $completed: task.completed,
+      $series_id: task.series_id ?? null,
+      $auto_complete_subtasks: task.auto_complete_subtasks ?? false,
+      $assignee_id: task.assignee_id ?? null,
+      $version: task.version ?? 1,
+      $created_at: task.created_at,
+      $updated_at: task.updated_at,
     });
 
-    return newTask;
+    const inserted = { ...task, version: task.version ?? 1, tag_ids: this.linkTags(task.id, task.tag_ids ?? []) };
+    this.indexTask(inserted);
+    return inserted;
+  }
+
+  // The lists below leave out the trash, and can be narrowed to a tag or an assignee
+  getTasksByDay(day: string, filter: TaskFilter = {}): Task[] {
+    const query = this.db.query(`
+      SELECT ${TASK_COLUMNS} FROM tasks
+      WHERE ${BOARD_SCOPE} AND day = $day AND deleted_at IS NULL AND ${TASK_FILTER}
+      ORDER BY priority ASC, created_at ASC
+    `);
+    return (query.all({ ...this.scope, $day: day, ...filterParams(filter) }) as TaskRow[]).map(toTask);
   }
 
-  getTasksByDay(day: string): Task[] {
-    const query = this.db.query("SELECT * FROM tasks WHERE day = $day ORDER BY priority ASC, created_at ASC");
-    return query.all({ $day: day }) as Task[];
+  // Tasks between two ISO dates, both inclusive
+  getTasksInRange(from: string, to: string, filter: TaskFilter = {}): Task[] {
+    const query = this.db.query(`
+      SELECT ${TASK_COLUMNS} FROM tasks
+      WHERE ${BOARD_SCOPE} AND day >= $from AND day <= $to AND deleted_at IS NULL AND ${TASK_FILTER}
+      ORDER BY day, priority ASC, created_at ASC
+    `);
+    const params = { ...this.scope, $from: from, $to: to, ...filterParams(filter) };
+    return (query.all(params) as TaskRow[]).map(toTask);
   }
 
-  getAllTasks(): Task[] {
-    const query = this.db.query("SELECT * FROM tasks ORDER BY day, priority ASC, created_at ASC");
-    return query.all() as Task[];
+  getAllTasks(filter: TaskFilter = {}): Task[] {
+    const query = this.db.query(`
+      SELECT ${TASK_COLUMNS} FROM tasks
+      WHERE ${BOARD_SCOPE} AND deleted_at IS NULL AND ${TASK_FILTER}
+      ORDER BY day, priority ASC, created_at ASC
+    `);
+    return (query.all({ ...this.scope, ...filterParams(filter) }) as TaskRow[]).map(toTask);
   }
 
-  updateTask(id: string, updates: Partial<Omit<Task, "id" | "created_at">>): Task | null {
-    const updated_at = new Date().toISOString();
-    const fields = Object.keys(updates).map(key => `${key} = $${key}`).join(", ");
-    
-    if (fields.length === 0) {
+  updateTask(id: string, updates: TaskChanges): Task | null {
+    // Only known columns make it into the statement, whatever else `updates` holds
+    const columns = TASK_UPDATE_COLUMNS.filter(column => updates[column] !== undefined);
+
+    if (columns.length === 0) {
       return this.getTask(id);
     }
 
+    const previous = this.getTask(id);
+    const updatedAt = new Date().toISOString();
     const query = this.db.query(`
-      UPDATE tasks SET ${fields}, updated_at = $updated_at WHERE id = $id
+      UPDATE tasks
+      SET ${columns.map(column => `${column} = $${column}`).join(", ")},
+        version = version + 1, updated_at = $updated_at
+      WHERE id = $id AND ${BOARD_SCOPE}
     `);
 
-    const params = {
+    query.run({
       $id: id,
-      $updated_at: updated_at,
-      ...Object.fromEntries(Object.entries(updates).map(([key, value]) => [`$${key}`, value]))
-    };
+      ...this.scope,
+      $updated_at: updatedAt,
+      ...Object.fromEntries(columns.map(column => [`$${column}`, updates[column] ?? null])),
+    });
 
-    query.run(params);
-    return this.getTask(id);
+    const task = this.getTask(id);
+    if (task && (columns.includes("title") || columns.includes("description"))) {
+      this.indexTask(task);
+    }
+    if (task && previous) {
+      for (const field of HISTORY_FIELDS) {
+        if (!sameValue(previous, task, field)) {
+          this.recordHistory(id, field, historyValue(previous, field), historyValue(task, field), updatedAt);
+        }
+      }
+    }
+    return task;
   }
 
+  // Moves the task to the trash; it keeps its subtasks, tags and pomodoro history
   deleteTask(id: string): boolean {
-    const query = this.db.query("DELETE FROM tasks WHERE id = $id");
-    const result = query.run({ $id: id });
+    const query = this.db.query(`
+      UPDATE tasks SET deleted_at = $deleted_at
+      WHERE id = $id AND ${BOARD_SCOPE} AND deleted_at IS NULL
+    `);
+    const deletedAt = new Date().toISOString();
+    const result = query.run({ $id: id, ...this.scope, $deleted_at: deletedAt });
+    if (result.changes > 0) {
+      // Trashed tasks don't turn up in search
+      this.db.query("DELETE FROM tasks_fts WHERE task_id = $id").run({ $id: id });
+      this.recordHistory(id, "deleted", null, null, deletedAt);
+    }
     return result.changes > 0;
   }
 
+  // Trashed tasks are left out, as if they were gone
   getTask(id: string): Task | null {
-    const query = this.db.query("SELECT * FROM tasks WHERE id = $id");
-    return query.get({ $id: id }) as Task | null;
+    const query = this.db.query(`
+      SELECT ${TASK_COLUMNS} FROM tasks WHERE id = $id AND ${BOARD_SCOPE} AND deleted_at IS NULL
+    `);
+    const row = query.get({ $id: id, ...this.scope }) as TaskRow | null;
+    return row ? toTask(row) : null;
   }
 
-  reorderTasks(day: string, taskIds: string[]) {
-    const transaction = this.db.transaction((ids: string[]) => {
-      ids.forEach((id, index) => {
-        const query = this.db.query("UPDATE tasks SET priority = $priority WHERE id = $id");
-        query.run({ $priority: index + 1, $id: id });
-      });
-    });
-
-    transaction(taskIds);
+  // Whether any task, on any board and in the trash too, already has this id
+  isTaskIdTaken(id: string): boolean {
+    return this.db.query("SELECT 1 FROM tasks WHERE id = $id").get({ $id: id }) !== null;
   }
 
-  // Pomodoro operations
-  createPomodoroSession(session: Omit<PomodoroSession, "id">): PomodoroSession {
-    const id = crypto.randomUUID();
-    const newSession: PomodoroSession = { ...session, id };
-
+  // Trash operations
+  getTrash(): Task[] {
     const query = this.db.query(`
-      INSERT INTO pomodoro_sessions (id, task_id, duration, started_at, completed_at, type)
-      VALUES ($id, $task_id, $duration, $started_at, $completed_at, $type)
+      SELECT ${TASK_COLUMNS} FROM tasks
+      WHERE ${BOARD_SCOPE} AND deleted_at IS NOT NULL
+      ORDER BY deleted_at DESC
     `);
+    return (query.all({ ...this.scope }) as TaskRow[]).map(toTask);
+  }
 
-    query.run({
+  // Takes a task out of the trash, back on the day it was on
+  restoreTask(id: string): Task | null {
+    const query = this.db.query(`
+      UPDATE tasks SET deleted_at = NULL, version = version + 1, updated_at = $updated_at
+      WHERE id = $id AND ${BOARD_SCOPE} AND deleted_at IS NOT NULL
+    `);
+    const restoredAt = new Date().toISOString();
+    if (query.run({ $id: id, ...this.scope, $updated_at: restoredAt }).changes === 0) {
+      return null;
+    }
+
+    const task = this.getTask(id)!;
+    this.indexTask(task);
+    this.recordHistory(id, "restored", null, null, restoredAt);
+    return task;
+  }
+
+  // Deletes a trashed task for good. Its pomodoro sessions are kept for the stats
+  purgeTask(id: string): boolean {
+    const query = this.db.query(`
+      DELETE FROM tasks WHERE id = $id AND ${BOARD_SCOPE} AND deleted_at IS NOT NULL
+    `);
+    const result = query.run({ $id: id, ...this.scope });
+    if (result.changes > 0) {
+      // Foreign keys aren't enforced, so the cascade is done by hand
+      this.db.query("DELETE FROM subtasks WHERE task_id = $id").run({ $id: id });
+      this.db.query("DELETE FROM task_tags WHERE task_id = $id").run({ $id: id });
+      this.db.query("DELETE FROM task_history WHERE task_id = $id").run({ $id: id });
+    }
+    return result.changes > 0;
+  }
+
+  // Purges everything trashed before `before` and returns the ids
+  purgeTrash(before: string): string[] {
+    const transaction = this.db.transaction(() => {
+      const query = this.db.query(`SELECT id FROM tasks WHERE ${BOARD_SCOPE} AND deleted_at < $before`);
+      const ids = (query.all({ ...this.scope, $before: before }) as { id: string }[]).map(row => row.id);
+      return ids.filter(id => this.purgeTask(id));
+    });
+
+    return transaction();
+  }
+
+  reorderTasks(day: string, taskIds: string[]) {
+    const transaction = this.db.transaction((ids: string[]) => {
+      const changedAt = new Date().toISOString();
+      const current = this.db.query(`SELECT priority FROM tasks WHERE id = $id AND ${BOARD_SCOPE}`);
+      const query = this.db.query(`UPDATE tasks SET priority = $priority WHERE id = $id AND ${BOARD_SCOPE}`);
+
+      ids.forEach((id, index) => {
+        const row = current.get({ $id: id, ...this.scope }) as { priority: number } | null;
+        query.run({ $priority: index + 1, $id: id, ...this.scope });
+        if (row && row.priority !== index + 1) {
+          this.recordHistory(id, "priority", row.priority, index + 1, changedAt);
+        }
+      });
+    });
+
+    transaction(taskIds);
+  }
+
+  // History operations
+  private recordHistory(
+    taskId: string,
+    change: TaskHistoryChange,
+    oldValue: TaskHistoryEntry["old_value"],
+    newValue: TaskHistoryEntry["new_value"],
+    changedAt: string
+  ) {
+    const query = this.db.query(`
+      INSERT INTO task_history (task_id, change, old_value, new_value, changed_at)
+      VALUES ($task_id, $change, $old_value, $new_value, $changed_at)
+    `);
+
+    query.run({
+      $task_id: taskId,
+      $change: change,
+      $old_value: oldValue === null ? null : JSON.stringify(oldValue),
+      $new_value: newValue === null ? null : JSON.stringify(newValue),
+      $changed_at: changedAt,
+    });
+  }
+
+  // Oldest first
+  getTaskHistory(taskId: string): TaskHistoryEntry[] {
+    const query = this.db.query(`
+      SELECT * FROM task_history
+      WHERE task_id = $task_id AND task_id IN ${BOARD_TASK_IDS}
+      ORDER BY changed_at ASC, id ASC
+    `);
+    const rows = query.all({ $task_id: taskId, ...this.scope }) as TaskHistoryRow[];
+    return rows.map(toHistoryEntry);
+  }
+
+  // Recurring task operations
+  createTaskSeries(
+    series: Pick<TaskSeries, "title" | "description" | "rule" | "start_date">
+  ): TaskSeries {
+    const now = new Date().toISOString();
+    const newSeries: TaskSeries = {
+      ...series,
+      id: crypto.randomUUID(),
+      // Nothing has been generated yet
+      generated_until: addDays(series.start_date, -1),
+      created_at: now,
+      updated_at: now,
+    };
+
+    return this.insertTaskSeries(newSeries);
+  }
+
+  private insertTaskSeries(series: TaskSeries): TaskSeries {
+    const query = this.db.query(`
+      INSERT INTO task_series (
+        id, board_id, user_id, title, description, rule, start_date, generated_until, created_at, updated_at
+      )
+      VALUES (
+        $id, $board_id, $user_id, $title, $description, $rule, $start_date, $generated_until, $created_at, $updated_at
+      )
+    `);
+
+    query.run({
+      $id: series.id,
+      $board_id: this.boardId,
+      $user_id: this.userId,
+      $title: series.title,
+      $description: series.description ?? null,
+      $rule: JSON.stringify(series.rule),
+      $start_date: series.start_date,
+      $generated_until: series.generated_until,
+      $created_at: series.created_at,
+      $updated_at: series.updated_at,
+    });
+
+    return series;
+  }
+
+  getTaskSeries(id: string): TaskSeries | null {
+    const query = this.db.query(`SELECT * FROM task_series WHERE id = $id AND ${BOARD_SCOPE}`);
+    const row = query.get({ $id: id, ...this.scope }) as (Omit<TaskSeries, "rule"> & { rule: string }) | null;
+    return row ? { ...row, rule: JSON.parse(row.rule) } : null;
+  }
+
+  // The series the given tasks belong to
+  getTaskSeriesFor(tasks: Task[]): TaskSeries[] {
+    const ids = [...new Set(tasks.map(task => task.series_id).filter(Boolean))] as string[];
+    return ids.map(id => this.getTaskSeries(id)).filter(Boolean) as TaskSeries[];
+  }
+
+  updateTaskSeries(
+    id: string,
+    updates: Partial<Pick<TaskSeries, "title" | "description" | "rule" | "generated_until">>
+  ): TaskSeries | null {
+    const series = this.getTaskSeries(id);
+    if (!series) {
+      return null;
+    }
+
+    const updated: TaskSeries = { ...series, ...updates, updated_at: new Date().toISOString() };
+    const query = this.db.query(`
+      UPDATE task_series
+      SET title = $title, description = $description, rule = $rule,
+          generated_until = $generated_until, updated_at = $updated_at
+      WHERE id = $id AND ${BOARD_SCOPE}
+    `);
+
+    query.run({
+      $id: id,
+      ...this.scope,
+      $title: updated.title,
+      $description: updated.description ?? null,
+      $rule: JSON.stringify(updated.rule),
+      $generated_until: updated.generated_until,
+      $updated_at: updated.updated_at,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Creates the occurrences every series (or just `seriesId`) still owes up to
+   * `to`. Each date is only ever generated once, so an occurrence deleted on
+   * its own stays deleted.
+   */
+  materializeTaskSeries(to: string, seriesId?: string): Task[] {
+    const transaction = this.db.transaction(() => {
+      const query = this.db.query(`
+        SELECT id FROM task_series
+        WHERE ${BOARD_SCOPE} AND generated_until < $to AND ($id IS NULL OR id = $id)
+      `);
+      const pending = query.all({ ...this.scope, $to: to, $id: seriesId ?? null }) as { id: string }[];
+      const created: Task[] = [];
+
+      for (const { id } of pending) {
+        const series = this.getTaskSeries(id)!;
+        const from = addDays(series.generated_until, 1);
+
+        // New occurrences carry the tags and assignee of the latest one
+        const tagQuery = this.db.query(`
+          SELECT tag_id FROM task_tags
+          WHERE task_id = (
+            SELECT id FROM tasks WHERE series_id = $series_id AND ${BOARD_SCOPE} ORDER BY day DESC LIMIT 1
+          )
+        `);
+        const tagIds = (tagQuery.all({ $series_id: id, ...this.scope }) as { tag_id: string }[]).map(row => row.tag_id);
+        const assigneeQuery = this.db.query(`
+          SELECT assignee_id FROM tasks WHERE series_id = $series_id AND ${BOARD_SCOPE} ORDER BY day DESC LIMIT 1
+        `);
+        const latest = assigneeQuery.get({ $series_id: id, ...this.scope }) as { assignee_id: string | null } | null;
+
+        for (const day of expandRecurrence(series.rule, series.start_date, from, to)) {
+          created.push(this.createTask({
+            title: series.title,
+            description: series.description,
+            day,
+            priority: 1,
+            completed: false,
+            series_id: series.id,
+            assignee_id: latest?.assignee_id ?? null,
+            tag_ids: tagIds,
+          }));
+        }
+
+        this.updateTaskSeries(id, { generated_until: to });
+      }
+
+      return created;
+    });
+
+    return transaction();
+  }
+
+  // Applies a title/description edit to the series and every occurrence from `task` on
+  updateFutureOccurrences(task: Task, updates: Pick<Partial<Task>, "title" | "description">): SeriesChange {
+    const template = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+
+    const transaction = this.db.transaction(() => {
+      const series = this.updateTaskSeries(task.series_id!, template)!;
+      const ids = this.getSeriesTaskIds(series.id, task.day);
+      const tasks = ids.map(id => this.updateTask(id, template)!);
+
+      return { tasks, deletedIds: [], series: [series] };
+    });
+
+    return transaction();
+  }
+
+  /**
+   * Stops a series after `lastDay`. Unfinished occurrences past that day are
+   * deleted; finished ones are kept as plain tasks so their history survives.
+   */
+  endTaskSeries(seriesId: string, lastDay: string, keepTaskId?: string): SeriesChange {
+    const transaction = this.db.transaction(() => {
+      const current = this.getTaskSeries(seriesId)!;
+      const series = this.updateTaskSeries(seriesId, {
+        rule: { ...current.rule, until: lastDay, count: null },
+      })!;
+
+      const query = this.db.query(`
+        SELECT * FROM tasks
+        WHERE ${BOARD_SCOPE} AND series_id = $series_id AND day > $day AND id != $keep
+          AND deleted_at IS NULL
+      `);
+      const later = query.all({
+        ...this.scope,
+        $series_id: seriesId,
+        $day: lastDay,
+        $keep: keepTaskId ?? "",
+      }) as Task[];
+
+      const deletedIds: string[] = [];
+      const tasks: Task[] = [];
+      for (const task of later) {
+        if (task.completed) {
+          tasks.push(this.updateTask(task.id, { series_id: null })!);
+        } else {
+          this.deleteTask(task.id);
+          deletedIds.push(task.id);
+        }
+      }
+
+      return { tasks, deletedIds, series: [series] };
+    });
+
+    return transaction();
+  }
+
+  /**
+   * Gives `task` and everything after it a new rule: the old series (if any)
+   * ends the day before, and a new one starts at the task's day with the
+   * task's title and description.
+   */
+  splitTaskSeries(task: Task, rule: RecurrenceRule): SeriesChange {
+    const transaction = this.db.transaction(() => {
+      const change: SeriesChange = { tasks: [], deletedIds: [], series: [] };
+      let generatedUntil = task.day;
+
+      if (task.series_id) {
+        const previous = this.getTaskSeries(task.series_id);
+        if (previous) {
+          generatedUntil = previous.generated_until > task.day ? previous.generated_until : task.day;
+          const ended = this.endTaskSeries(previous.id, addDays(task.day, -1), task.id);
+          change.tasks.push(...ended.tasks);
+          change.deletedIds.push(...ended.deletedIds);
+          change.series.push(...ended.series);
+        }
+      }
+
+      const series = this.createTaskSeries({
+        title: task.title,
+        description: task.description,
+        rule,
+        start_date: task.day,
+      });
+
+      // The task itself is the new series' first occurrence
+      change.tasks.push(this.updateTask(task.id, { series_id: series.id })!);
+      this.updateTaskSeries(series.id, { generated_until: task.day });
+
+      change.tasks.push(...this.materializeTaskSeries(generatedUntil, series.id));
+      change.series.push(this.getTaskSeries(series.id)!);
+      return change;
+    });
+
+    return transaction();
+  }
+
+  // Search operations
+  private indexTask(task: Task) {
+    this.db.query("DELETE FROM tasks_fts WHERE task_id = $id").run({ $id: task.id });
+    this.db.query(`
+      INSERT INTO tasks_fts (task_id, title, description) VALUES ($id, $title, $description)
+    `).run({ $id: task.id, $title: task.title, $description: task.description ?? "" });
+  }
+
+  // Best matches first; `match` is an FTS5 query, see buildSearchQuery
+  searchTasks(match: string, limit: number): SearchResult[] {
+    const query = this.db.query(`
+      SELECT
+        tasks_fts.task_id,
+        highlight(tasks_fts, 1, $start, $end) AS title,
+        CASE WHEN tasks_fts.description = '' THEN NULL
+          ELSE snippet(tasks_fts, 2, $start, $end, '…', 12) END AS snippet
+      FROM tasks_fts
+      WHERE tasks_fts MATCH $match AND tasks_fts.task_id IN ${BOARD_TASK_IDS}
+      ORDER BY rank
+      LIMIT $limit
+    `);
+
+    const rows = query.all({
+      ...this.scope,
+      $match: match,
+      $start: HIGHLIGHT_START,
+      $end: HIGHLIGHT_END,
+      $limit: limit,
+    }) as { task_id: string; title: string; snippet: string | null }[];
+
+    return rows.flatMap(({ task_id, title, snippet }) => {
+      const task = this.getTask(task_id);
+      return task ? [{ task, title, snippet }] : [];
+    });
+  }
+
+  // Tag operations
+  getTags(): Tag[] {
+    const query = this.db.query(`SELECT * FROM tags WHERE ${BOARD_SCOPE} ORDER BY name COLLATE NOCASE ASC`);
+    return query.all({ ...this.scope }) as Tag[];
+  }
+
+  getTag(id: string): Tag | null {
+    const query = this.db.query(`SELECT * FROM tags WHERE id = $id AND ${BOARD_SCOPE}`);
+    return query.get({ $id: id, ...this.scope }) as Tag | null;
+  }
+
+  getTagByName(name: string): Tag | null {
+    const query = this.db.query(`SELECT * FROM tags WHERE name = $name AND ${BOARD_SCOPE}`);
+    return query.get({ $name: name, ...this.scope }) as Tag | null;
+  }
+
+  createTag(tag: Pick<Tag, "name" | "color">): Tag {
+    const now = new Date().toISOString();
+    const newTag: Tag = {
+      ...tag,
+      id: crypto.randomUUID(),
+      created_at: now,
+      updated_at: now,
+    };
+
+    const query = this.db.query(`
+      INSERT INTO tags (id, board_id, name, color, created_at, updated_at)
+      VALUES ($id, $board_id, $name, $color, $created_at, $updated_at)
+    `);
+
+    query.run({
+      $id: newTag.id,
+      $board_id: this.boardId,
+      $name: newTag.name,
+      $color: newTag.color,
+      $created_at: newTag.created_at,
+      $updated_at: newTag.updated_at,
+    });
+
+    return newTag;
+  }
+
+  updateTag(id: string, updates: Partial<Pick<Tag, "name" | "color">>): Tag | null {
+    const tag = this.getTag(id);
+    if (!tag) {
+      return null;
+    }
+
+    const updated: Tag = { ...tag, ...updates, updated_at: new Date().toISOString() };
+    const query = this.db.query(`
+      UPDATE tags SET name = $name, color = $color, updated_at = $updated_at
+      WHERE id = $id AND ${BOARD_SCOPE}
+    `);
+
+    query.run({
+      $id: id,
+      ...this.scope,
+      $name: updated.name,
+      $color: updated.color,
+      $updated_at: updated.updated_at,
+    });
+
+    return updated;
+  }
+
+  deleteTag(id: string): boolean {
+    const transaction = this.db.transaction(() => {
+      if (!this.getTag(id)) {
+        return false;
+      }
+
+      this.db.query("DELETE FROM task_tags WHERE tag_id = $id").run({ $id: id });
+      return this.db.query("DELETE FROM tags WHERE id = $id").run({ $id: id }).changes > 0;
+    });
+
+    return transaction();
+  }
+
+  // Replaces the task's tags; ids of tags that don't exist are dropped
+  setTaskTags(taskId: string, tagIds: string[]): Task | null {
+    const transaction = this.db.transaction(() => {
+      if (!this.getTask(taskId)) {
+        return null;
+      }
+
+      this.db.query("DELETE FROM task_tags WHERE task_id = $task_id").run({ $task_id: taskId });
+      this.linkTags(taskId, tagIds);
+      this.db.query(`UPDATE tasks SET version = version + 1, updated_at = $updated_at WHERE id = $id AND ${BOARD_SCOPE}`)
+        .run({ $id: taskId, ...this.scope, $updated_at: new Date().toISOString() });
+      return this.getTask(taskId);
+    });
+
+    return transaction();
+  }
+
+  // Links the task to each existing tag in `tagIds` and returns the linked ids
+  private linkTags(taskId: string, tagIds: string[]): string[] {
+    const query = this.db.query(`
+      INSERT OR IGNORE INTO task_tags (task_id, tag_id)
+      SELECT $task_id, id FROM tags WHERE id = $tag_id AND ${BOARD_SCOPE}
+    `);
+
+    return tagIds.filter(tagId =>
+      query.run({ $task_id: taskId, $tag_id: tagId, ...this.scope }).changes > 0
+    );
+  }
+
+  // Subtask operations
+  getSubtasks(taskId: string): Subtask[] {
+    const query = this.db.query(`
+      SELECT * FROM subtasks WHERE task_id = $task_id AND task_id IN ${BOARD_TASK_IDS} ORDER BY position ASC
+    `);
+    return query.all({ $task_id: taskId, ...this.scope }) as Subtask[];
+  }
+
+  getSubtasksForTasks(taskIds: string[]): Subtask[] {
+    if (taskIds.length === 0) {
+      return [];
+    }
+
+    const query = this.db.query(`
+      SELECT * FROM subtasks
+      WHERE task_id IN (SELECT value FROM json_each($task_ids)) AND task_id IN ${BOARD_TASK_IDS}
+      ORDER BY task_id, position ASC
+    `);
+    return query.all({ $task_ids: JSON.stringify(taskIds), ...this.scope }) as Subtask[];
+  }
+
+  getSubtask(id: string): Subtask | null {
+    const query = this.db.query(`SELECT * FROM subtasks WHERE id = $id AND task_id IN ${BOARD_TASK_IDS}`);
+    return query.get({ $id: id, ...this.scope }) as Subtask | null;
+  }
+
+  createSubtask(taskId: string, title: string): Subtask {
+    const now = new Date().toISOString();
+    const last = this.db.query("SELECT MAX(position) AS position FROM subtasks WHERE task_id = $task_id")
+      .get({ $task_id: taskId }) as { position: number | null };
+
+    const subtask: Subtask = {
+      id: crypto.randomUUID(),
+      task_id: taskId,
+      title,
+      completed: false,
+      position: (last.position ?? 0) + 1,
+      created_at: now,
+      updated_at: now,
+    };
+
+    return this.insertSubtask(subtask);
+  }
+
+  private insertSubtask(subtask: Subtask): Subtask {
+    const query = this.db.query(`
+      INSERT INTO subtasks (id, task_id, title, completed, position, created_at, updated_at)
+      VALUES ($id, $task_id, $title, $completed, $position, $created_at, $updated_at)
+    `);
+
+    query.run({
+      $id: subtask.id,
+      $task_id: subtask.task_id,
+      $title: subtask.title,
+      $completed: subtask.completed,
+      $position: subtask.position,
+      $created_at: subtask.created_at,
+      $updated_at: subtask.updated_at,
+    });
+
+    return subtask;
+  }
+
+  updateSubtask(id: string, updates: Partial<Pick<Subtask, "title" | "completed">>): Subtask | null {
+    const subtask = this.getSubtask(id);
+    if (!subtask) {
+      return null;
+    }
+
+    const query = this.db.query(`
+      UPDATE subtasks SET title = $title, completed = $completed, updated_at = $updated_at WHERE id = $id
+    `);
+
+    query.run({
+      $id: id,
+      $title: updates.title ?? subtask.title,
+      $completed: updates.completed ?? Boolean(subtask.completed),
+      $updated_at: new Date().toISOString(),
+    });
+
+    return this.getSubtask(id);
+  }
+
+  deleteSubtask(id: string): boolean {
+    const query = this.db.query(`DELETE FROM subtasks WHERE id = $id AND task_id IN ${BOARD_TASK_IDS}`);
+    const result = query.run({ $id: id, ...this.scope });
+    return result.changes > 0;
+  }
+
+  reorderSubtasks(taskId: string, subtaskIds: string[]) {
+    const transaction = this.db.transaction((ids: string[]) => {
+      const query = this.db.query(`
+        UPDATE subtasks SET position = $position
+        WHERE id = $id AND task_id = $task_id AND task_id IN ${BOARD_TASK_IDS}
+      `);
+      ids.forEach((id, index) => {
+        query.run({ $position: index + 1, $id: id, $task_id: taskId, ...this.scope });
+      });
+    });
+
+    transaction(subtaskIds);
+  }
+
+  /**
+   * Completes the task when it opted in and every subtask is done. Returns the
+   * updated task, or null when nothing changed.
+   */
+  autoCompleteTask(taskId: string): Task | null {
+    const task = this.getTask(taskId);
+    if (!task || task.completed || !task.auto_complete_subtasks) {
+      return null;
+    }
+
+    const counts = this.db.query(`
+      SELECT COUNT(*) AS total, SUM(completed) AS done FROM subtasks WHERE task_id = $task_id
+    `).get({ $task_id: taskId }) as { total: number; done: number | null };
+
+    if (counts.total === 0 || counts.done !== counts.total) {
+      return null;
+    }
+
+    return this.updateTask(taskId, { completed: true });
+  }
+
+  // Moves a task to `index` (default: the end) of another day's list, or within its own
+  moveTask(id: string, day: string, index?: number): TaskMove | null {
+    const transaction = this.db.transaction(() => {
+      const task = this.getTask(id);
+      if (!task) {
+        return null;
+      }
+
+      const sourceIds = this.getTasksByDay(task.day)
+        .map(t => t.id)
+        .filter(taskId => taskId !== id);
+      const targetIds = task.day === day
+        ? sourceIds
+        : this.getTasksByDay(day).map(t => t.id);
+
+      const position = Math.min(index ?? targetIds.length, targetIds.length);
+      targetIds.splice(position, 0, id);
+
+      if (task.day !== day) {
+        this.updateTask(id, { day });
+        this.reorderTasks(task.day, sourceIds);
+      }
+      this.reorderTasks(day, targetIds);
+
+      return {
+        task: this.getTask(id)!,
+        from: { day: task.day, taskIds: task.day === day ? targetIds : sourceIds },
+        to: { day, taskIds: targetIds },
+      };
+    });
+
+    return transaction();
+  }
+
+  /**
+   * Applies the operations in order, all of them or, when one fails, none.
+   * Each task may only be named once; moved tasks go to the end of their day.
+   */
+  applyTaskBatch(operations: TaskBatchOperation[]): TaskBatchResult {
+    const transaction = this.db.transaction((): TaskBatchResult => {
+      const days = new Set<string>();
+      const changedIds: string[] = [];
+      const deletedIds: string[] = [];
+
+      for (const operation of operations) {
+        const task = this.getTask(operation.id);
+        if (!task) {
+          throw new Error(`Task ${operation.id} not found`);
+        }
+        days.add(task.day);
+
+        if (operation.op === "update") {
+          this.updateTask(task.id, operation.changes);
+          changedIds.push(task.id);
+        } else if (operation.op === "move") {
+          this.moveTask(task.id, operation.day);
+          days.add(operation.day);
+          changedIds.push(task.id);
+        } else {
+          this.deleteTask(task.id);
+          deletedIds.push(task.id);
+        }
+      }
+
+      return {
+        tasks: changedIds.map(id => this.getTask(id)!),
+        deletedIds,
+        order: [...days].sort().map(day => ({ day, taskIds: this.getTasksByDay(day).map(task => task.id) })),
+      };
+    });
+
+    return transaction();
+  }
+
+  // Activity operations
+  // Ids of a series' occurrences from `day` on, which a series-wide edit may touch
+  getSeriesTaskIds(seriesId: string, day: string): string[] {
+    const query = this.db.query(`
+      SELECT id FROM tasks
+      WHERE ${BOARD_SCOPE} AND series_id = $series_id AND day >= $day AND deleted_at IS NULL
+    `);
+    const rows = query.all({ ...this.scope, $series_id: seriesId, $day: day }) as { id: string }[];
+    return rows.map(row => row.id);
+  }
+
+  // The given tasks as they are now, with their subtasks and series; missing ones are left out
+  captureState(taskIds: string[]): ActivityState {
+    const ids = [...new Set(taskIds)];
+    const subtasks = this.getSubtasksForTasks(ids);
+    const tasks = ids
+      .map(id => this.getTask(id))
+      .filter((task): task is Task => task !== null)
+      .map(task => ({ ...task, subtasks: subtasks.filter(subtask => subtask.task_id === task.id) }));
+
+    return { tasks, series: this.getTaskSeriesFor(tasks) };
+  }
+
+  /**
+   * Logs an operation with the state of what it touched before and after.
+   * Tasks and series it left as they were are dropped, and nothing is logged
+   * when that's all of them.
+   */
+  recordActivity(
+    action: ActivityAction,
+    taskId: string | null,
+    before: ActivityState,
+    after: ActivityState
+  ): Activity | null {
+    // Saving a task unchanged still bumps updated_at and its version, so those don't count
+    const key = (item: { id: string }) => JSON.stringify({ ...item, updated_at: null, version: null });
+    const prune = <T extends { id: string }>(items: T[], others: T[]) =>
+      items.filter(item => {
+        const other = others.find(o => o.id === item.id);
+        return !other || key(other) !== key(item);
+      });
+
+    // A series outlives its last occurrence, so it's still there afterwards
+    const kept = before.series
+      .filter(series => !after.series.some(s => s.id === series.id))
+      .map(series => this.getTaskSeries(series.id))
+      .filter((series): series is TaskSeries => series !== null);
+    after = { ...after, series: [...after.series, ...kept] };
+
+    const activity: Activity = {
+      id: crypto.randomUUID(),
+      action,
+      task_id: taskId,
+      before: { tasks: prune(before.tasks, after.tasks), series: prune(before.series, after.series) },
+      after: { tasks: prune(after.tasks, before.tasks), series: prune(after.series, before.series) },
+      created_at: new Date().toISOString(),
+      undone_at: null,
+    };
+
+    const { before: changed, after: result } = activity;
+    if (changed.tasks.length + changed.series.length + result.tasks.length + result.series.length === 0) {
+      return null;
+    }
+
+    const query = this.db.query(`
+      INSERT INTO activity_log (id, board_id, user_id, action, task_id, before, after, created_at, undone_at)
+      VALUES ($id, $board_id, $user_id, $action, $task_id, $before, $after, $created_at, NULL)
+    `);
+
+    query.run({
+      $id: activity.id,
+      $board_id: this.boardId,
+      $user_id: this.userId,
+      $action: activity.action,
+      $task_id: activity.task_id,
+      $before: JSON.stringify(activity.before),
+      $after: JSON.stringify(activity.after),
+      $created_at: activity.created_at,
+    });
+
+    return activity;
+  }
+
+  getActivity(id: string): Activity | null {
+    const query = this.db.query(`SELECT * FROM activity_log WHERE id = $id AND ${BOARD_SCOPE}`);
+    const row = query.get({ $id: id, ...this.scope }) as ActivityRow | null;
+    return row ? toActivity(row) : null;
+  }
+
+  // The latest entries first, optionally only those about one task
+  getActivityLog(limit: number, taskId?: string): Activity[] {
+    const query = this.db.query(`
+      SELECT * FROM activity_log
+      WHERE ${BOARD_SCOPE} AND ($task_id IS NULL OR task_id = $task_id)
+      ORDER BY created_at DESC
+      LIMIT $limit
+    `);
+    const rows = query.all({ ...this.scope, $task_id: taskId ?? null, $limit: limit }) as ActivityRow[];
+    return rows.map(toActivity);
+  }
+
+  // Puts back what the activity changed. Returns why not when it can't be done
+  undoActivity(activity: Activity): ActivityRevert | string {
+    return this.revertActivity(activity, activity.after, activity.before, new Date().toISOString());
+  }
+
+  // Makes the activity's changes again after an undo
+  redoActivity(activity: Activity): ActivityRevert | string {
+    return this.revertActivity(activity, activity.before, activity.after, null);
+  }
+
+  /**
+   * Takes the tasks and series in `from` to how they are in `to`. Only fields
+   * the activity changed are touched, and only if nothing else has changed
+   * them since; the order of a day is restored regardless.
+   */
+  private revertActivity(
+    activity: Activity,
+    from: ActivityState,
+    to: ActivityState,
+    undoneAt: string | null
+  ): ActivityRevert | string {
+    const transaction = this.db.transaction((): ActivityRevert | string => {
+      const restored: Subtask[] = [];
+      const changedIds: string[] = [];
+      const deletedIds: string[] = [];
+      const days = new Set([...from.tasks, ...to.tasks].map(task => task.day));
+      const ids = new Set([...from.tasks, ...to.tasks].map(task => task.id));
+
+      // Check everything before changing anything
+      for (const id of ids) {
+        const expected = from.tasks.find(task => task.id === id);
+        const target = to.tasks.find(task => task.id === id);
+        const current = this.getTask(id);
+
+        if (!expected && current) {
+          return "A task it removed has been brought back since";
+        }
+        if (expected && !current && target) {
+          return "A task it changed has been deleted since";
+        }
+        if (expected && current && target) {
+          const field = changedTaskFields(expected, target).find(f => f !== "priority" && !sameValue(current, expected, f));
+          if (field) {
+            return `The task's ${field.replace(/_/g, " ")} has changed since`;
+          }
+        }
+        if (expected && current && !target && changedTaskFields(expected, current).some(f => f !== "priority")) {
+          return "A task it added has changed since";
+        }
+      }
+
+      for (const id of ids) {
+        const target = to.tasks.find(task => task.id === id);
+        const current = this.getTask(id);
+
+        if (!target) {
+          if (current && this.deleteTask(id)) {
+            deletedIds.push(id);
+          }
+        } else if (!current) {
+          // From the trash if it's still there, otherwise from the snapshot
+          if (this.restoreTask(id)) {
+            restored.push(...this.getSubtasks(id));
+          } else {
+            const { subtasks, ...task } = target;
+            const restoredAt = new Date().toISOString();
+            this.insertTask({ ...task, version: (task.version ?? 1) + 1, deleted_at: null, updated_at: restoredAt });
+            this.recordHistory(id, "restored", null, null, restoredAt);
+            subtasks.forEach(subtask => this.insertSubtask(subtask));
+            restored.push(...subtasks);
+          }
+          changedIds.push(id);
+        } else {
+          const expected = from.tasks.find(task => task.id === id)!;
+          const fields = changedTaskFields(expected, target);
+          const columns = TASK_UPDATE_COLUMNS.filter(column => fields.includes(column));
+          this.updateTask(id, Object.fromEntries(columns.map(column => [column, target[column] ?? null])));
+          if (fields.includes("tag_ids")) {
+            this.setTaskTags(id, target.tag_ids ?? []);
+          }
+          changedIds.push(id);
+        }
+      }
+
+      const seriesIds = new Set([...from.series, ...to.series].map(series => series.id));
+      for (const id of seriesIds) {
+        const target = to.series.find(series => series.id === id);
+        if (!target) {
+          this.db.query(`DELETE FROM task_series WHERE id = $id AND ${BOARD_SCOPE}`)
+            .run({ $id: id, ...this.scope });
+        } else if (!this.getTaskSeries(id)) {
+          this.insertTaskSeries(target);
+        } else {
+          const { title, description, rule, generated_until } = target;
+          this.updateTaskSeries(id, { title, description, rule, generated_until });
+        }
+      }
+
+      this.db.query(`UPDATE activity_log SET undone_at = $undone_at WHERE id = $id AND ${BOARD_SCOPE}`)
+        .run({ $id: activity.id, ...this.scope, $undone_at: undoneAt });
+
+      const tasks = changedIds.map(id => this.getTask(id)!);
+      return {
+        activity: { ...activity, undone_at: undoneAt },
+        tasks,
+        deletedIds,
+        series: this.getTaskSeriesFor(tasks),
+        subtasks: restored,
+        order: [...days].sort().map(day => ({ day, taskIds: this.getTasksByDay(day).map(task => task.id) })),
+      };
+    });
+
+    return transaction();
+  }
+
+  // Pomodoro operations
+  createPomodoroSession(session: NewPomodoroSession): PomodoroSession {
+    const id = crypto.randomUUID();
+    const newSession: PomodoroSession = {
+      ...session,
+      id,
+      outcome: null,
+      abandoned_at: null,
+      interruption_reason: null,
+      focused_seconds: null,
+    };
+
+    const query = this.db.query(`
+      INSERT INTO pomodoro_sessions (id, user_id, task_id, duration, started_at, completed_at, type)
+      VALUES ($id, $user_id, $task_id, $duration, $started_at, $completed_at, $type)
+    `);
+
+    query.run({
       $id: newSession.id,
+      $user_id: this.userId,
       $task_id: newSession.task_id,
       $duration: newSession.duration,
       $started_at: newSession.started_at,
@@ -182,23 +1808,366 @@ class TodoDatabase {
     return newSession;
   }
 
+  getPomodoroSession(id: string): PomodoroSession | null {
+    const query = this.db.query("SELECT * FROM pomodoro_sessions WHERE id = $id AND user_id = $user_id");
+    return query.get({ $id: id, $user_id: this.userId }) as PomodoroSession | null;
+  }
+
   completePomodoroSession(id: string): PomodoroSession | null {
+    const session = this.getPomodoroSession(id);
+    if (!session || session.outcome) {
+      return session;
+    }
+
     const completed_at = new Date().toISOString();
-    const query = this.db.query("UPDATE pomodoro_sessions SET completed_at = $completed_at WHERE id = $id");
-    query.run({ $id: id, $completed_at: completed_at });
-    
-    const getQuery = this.db.query("SELECT * FROM pomodoro_sessions WHERE id = $id");
-    return getQuery.get({ $id: id }) as PomodoroSession | null;
+    this.resumePomodoroSession(id, completed_at);
+
+    const query = this.db.query(`
+      UPDATE pomodoro_sessions
+      SET completed_at = $completed_at, outcome = 'completed', focused_seconds = $focused_seconds
+      WHERE id = $id
+    `);
+    query.run({
+      $id: id,
+      $completed_at: completed_at,
+      $focused_seconds: this.getFocusedSeconds(session, completed_at),
+    });
+
+    return this.getPomodoroSession(id);
+  }
+
+  abandonPomodoroSession(id: string, reason: string | null = null): PomodoroSession | null {
+    const session = this.getPomodoroSession(id);
+    if (!session || session.outcome) {
+      return session;
+    }
+
+    const abandoned_at = new Date().toISOString();
+    this.resumePomodoroSession(id, abandoned_at);
+
+    const query = this.db.query(`
+      UPDATE pomodoro_sessions
+      SET abandoned_at = $abandoned_at, outcome = 'abandoned',
+          interruption_reason = $reason, focused_seconds = $focused_seconds
+      WHERE id = $id
+    `);
+    query.run({
+      $id: id,
+      $abandoned_at: abandoned_at,
+      $reason: reason,
+      $focused_seconds: this.getFocusedSeconds(session, abandoned_at),
+    });
+
+    return this.getPomodoroSession(id);
+  }
+
+  pausePomodoroSession(id: string, pausedAt = new Date().toISOString()): PomodoroPause {
+    const pause: PomodoroPause = {
+      id: crypto.randomUUID(),
+      session_id: id,
+      paused_at: pausedAt,
+      resumed_at: null,
+    };
+
+    const query = this.db.query(`
+      INSERT INTO pomodoro_pauses (id, session_id, paused_at, resumed_at)
+      VALUES ($id, $session_id, $paused_at, $resumed_at)
+    `);
+    query.run({
+      $id: pause.id,
+      $session_id: pause.session_id,
+      $paused_at: pause.paused_at,
+      $resumed_at: pause.resumed_at,
+    });
+
+    return pause;
+  }
+
+  // Closes the open pause, if any
+  resumePomodoroSession(id: string, resumedAt = new Date().toISOString()) {
+    const query = this.db.query(`
+      UPDATE pomodoro_pauses SET resumed_at = $resumed_at
+      WHERE session_id = $session_id AND resumed_at IS NULL
+    `);
+    query.run({ $session_id: id, $resumed_at: resumedAt });
+  }
+
+  getPomodoroPauses(sessionId: string): PomodoroPause[] {
+    const query = this.db.query(`
+      SELECT * FROM pomodoro_pauses
+      WHERE session_id = $session_id
+        AND session_id IN (SELECT id FROM pomodoro_sessions WHERE user_id = $user_id)
+      ORDER BY paused_at ASC
+    `);
+    return query.all({ $session_id: sessionId, $user_id: this.userId }) as PomodoroPause[];
+  }
+
+  // Wall-clock time between start and end minus every pause, capped at the planned duration
+  private getFocusedSeconds(session: PomodoroSession, endedAt: string): number {
+    const end = Date.parse(endedAt);
+    const pausedMs = this.getPomodoroPauses(session.id).reduce((total, pause) => {
+      const resumed = pause.resumed_at ? Date.parse(pause.resumed_at) : end;
+      return total + (resumed - Date.parse(pause.paused_at));
+    }, 0);
+
+    const focusedMs = end - Date.parse(session.started_at) - pausedMs;
+    return Math.min(session.duration, Math.max(0, Math.round(focusedMs / 1000)));
   }
 
   getPomodoroSessions(taskId?: string): PomodoroSession[] {
-    if (taskId) {
-      const query = this.db.query("SELECT * FROM pomodoro_sessions WHERE task_id = $task_id ORDER BY started_at DESC");
-      return query.all({ $task_id: taskId }) as PomodoroSession[];
+    const query = this.db.query(`
+      SELECT * FROM pomodoro_sessions
+      WHERE user_id = $user_id AND ($task_id IS NULL OR task_id = $task_id)
+      ORDER BY started_at DESC
+    `);
+    return query.all({ $user_id: this.userId, $task_id: taskId ?? null }) as PomodoroSession[];
+  }
+
+  // Totals of completed work sessions, optionally for a single task
+  getTaskFocusSummaries(taskId?: string): TaskFocusSummary[] {
+    const query = this.db.query(`
+      SELECT task_id, COUNT(*) AS completed_pomodoros, SUM(focused_seconds) AS focused_seconds
+      FROM pomodoro_sessions
+      WHERE user_id = $user_id
+        AND type = 'work'
+        AND outcome = 'completed'
+        AND task_id IS NOT NULL
+        AND ($task_id IS NULL OR task_id = $task_id)
+      GROUP BY task_id
+    `);
+    return query.all({ $user_id: this.userId, $task_id: taskId ?? null }) as TaskFocusSummary[];
+  }
+
+  // Aggregates work sessions over the last `days` days. Session timestamps are
+  // UTC, so `tzOffset` (minutes, as Date.getTimezoneOffset returns) moves them
+  // into the viewer's local days.
+  getPomodoroStats(days: number, tzOffset: number): PomodoroStats {
+    const offset = `${-tzOffset} minutes`;
+    const today = this.db.query("SELECT date('now', $offset) AS day").get({ $offset: offset }) as { day: string };
+    const from = this.db.query("SELECT date($today, $back) AS day")
+      .get({ $today: today.day, $back: `-${days - 1} days` }) as { day: string };
+
+    // Compared with started_at as stored, so the range can use its index
+    const params = { $user_id: this.userId, $offset: offset, $since: localDayStart(from.day, tzOffset) };
+    const inRange = "user_id = $user_id AND type = 'work' AND started_at >= $since";
+
+    const daily = this.db.query(`
+      SELECT date(started_at, $offset) AS day,
+             COALESCE(SUM(focused_seconds), 0) AS focused_seconds,
+             SUM(outcome = 'completed') AS completed_pomodoros
+      FROM pomodoro_sessions
+      WHERE ${inRange}
+      GROUP BY day
+      ORDER BY day ASC
+    `).all(params) as PomodoroStats["daily"];
+
+    const weekdays = this.db.query(`
+      SELECT CAST(strftime('%w', started_at, $offset) AS INTEGER) AS weekday,
+             COALESCE(SUM(focused_seconds), 0) AS focused_seconds
+      FROM pomodoro_sessions
+      WHERE ${inRange}
+      GROUP BY weekday
+      ORDER BY weekday ASC
+    `).all(params) as PomodoroStats["weekdays"];
+
+    const outcomes = this.db.query(`
+      SELECT COALESCE(SUM(outcome = 'completed'), 0) AS completed,
+             COALESCE(SUM(outcome = 'abandoned'), 0) AS abandoned
+      FROM pomodoro_sessions
+      WHERE ${inRange}
+    `).get(params) as { completed: number; abandoned: number };
+
+    // Gaps and islands: consecutive days share the same julianday - row number
+    const streaks = this.db.query(`
+      WITH days AS (
+        SELECT DISTINCT date(started_at, $offset) AS day
+        FROM pomodoro_sessions
+        WHERE user_id = $user_id AND type = 'work' AND outcome = 'completed'
+      ),
+      islands AS (
+        SELECT day, julianday(day) - ROW_NUMBER() OVER (ORDER BY day) AS island
+        FROM days
+      )
+      SELECT MAX(day) AS last_day, COUNT(*) AS length
+      FROM islands
+      GROUP BY island
+    `).all({ $user_id: this.userId, $offset: offset }) as { last_day: string; length: number }[];
+
+    // A streak is still current until a whole day passes without a pomodoro
+    const yesterday = this.db.query("SELECT date($today, '-1 day') AS day")
+      .get({ $today: today.day }) as { day: string };
+    const current = streaks.find(s => s.last_day === today.day || s.last_day === yesterday.day);
+
+    const top_tasks = this.db.query(`
+      SELECT s.task_id, t.title,
+             COALESCE(SUM(s.focused_seconds), 0) AS focused_seconds,
+             SUM(s.outcome = 'completed') AS completed_pomodoros
+      FROM pomodoro_sessions s
+      JOIN tasks t ON t.id = s.task_id
+      WHERE s.user_id = $user_id AND s.type = 'work' AND s.started_at >= $since
+      GROUP BY s.task_id
+      ORDER BY focused_seconds DESC
+      LIMIT 5
+    `).all(params) as PomodoroStats["top_tasks"];
+
+    const finished = outcomes.completed + outcomes.abandoned;
+
+    return {
+      range: { from: from.day, to: today.day },
+      daily,
+      weekdays,
+      outcomes: {
+        ...outcomes,
+        completion_rate: finished > 0 ? outcomes.completed / finished : 0,
+      },
+      streaks: {
+        current: current?.length ?? 0,
+        best: Math.max(0, ...streaks.map(s => s.length)),
+      },
+      top_tasks,
+    };
+  }
+
+  // Work sessions on the scoped board's tasks over the last `days` days, per
+  // person who ran them; `tzOffset` is as for getPomodoroStats
+  getFocusByPerson(days: number, tzOffset: number): PersonFocus[] {
+    const from = this.db.query("SELECT date('now', $offset, $back) AS day")
+      .get({ $offset: `${-tzOffset} minutes`, $back: `-${days - 1} days` }) as { day: string };
+
+    const query = this.db.query(`
+      SELECT s.user_id, users.name,
+             SUM(s.outcome = 'completed') AS completed_pomodoros,
+             COALESCE(SUM(s.focused_seconds), 0) AS focused_seconds
+      FROM pomodoro_sessions s
+      JOIN users ON users.id = s.user_id
+      WHERE s.task_id IN ${BOARD_TASK_IDS} AND s.type = 'work'
+        AND s.started_at >= $since
+      GROUP BY s.user_id
+      ORDER BY focused_seconds DESC
+    `);
+
+    return query.all({ ...this.scope, $since: localDayStart(from.day, tzOffset) }) as PersonFocus[];
+  }
+
+  // Timer preferences operations; each user has one row, keyed by their id
+  getTimerPreferences(): TimerPreferences {
+    const query = this.db.query("SELECT * FROM timer_preferences WHERE id = $id");
+    const row = query.get({ $id: this.userId }) as TimerPreferences | null;
+
+    if (!row) {
+      return {
+        ...DEFAULT_TIMER_PREFERENCES,
+        id: this.userId,
+        updated_at: new Date(0).toISOString(),
+      };
+    }
+
+    // SQLite hands booleans back as 0/1
+    return {
+      ...row,
+      auto_start_breaks: Boolean(row.auto_start_breaks),
+      auto_start_pomodoros: Boolean(row.auto_start_pomodoros),
+      notifications_enabled: Boolean(row.notifications_enabled),
+    };
+  }
+
+  updateTimerPreferences(updates: TimerPreferencesUpdate): TimerPreferences {
+    const preferences: TimerPreferences = {
+      ...this.getTimerPreferences(),
+      ...updates,
+      id: this.userId,
+      updated_at: new Date().toISOString(),
+    };
+
+    const query = this.db.query(`
+      INSERT OR REPLACE INTO timer_preferences (
+        id, work_duration, short_break_duration, long_break_duration, sessions_until_long_break,
+        auto_start_breaks, auto_start_pomodoros, notifications_enabled, updated_at
+      )
+      VALUES (
+        $id, $work_duration, $short_break_duration, $long_break_duration, $sessions_until_long_break,
+        $auto_start_breaks, $auto_start_pomodoros, $notifications_enabled, $updated_at
+      )
+    `);
+
+    query.run({
+      $id: preferences.id,
+      $work_duration: preferences.work_duration,
+      $short_break_duration: preferences.short_break_duration,
+      $long_break_duration: preferences.long_break_duration,
+      $sessions_until_long_break: preferences.sessions_until_long_break,
+      $auto_start_breaks: preferences.auto_start_breaks,
+      $auto_start_pomodoros: preferences.auto_start_pomodoros,
+      $notifications_enabled: preferences.notifications_enabled,
+      $updated_at: preferences.updated_at,
+    });
+
+    return preferences;
+  }
+
+  // Timer state operations; like the preferences, keyed by user id
+  getTimerState(): TimerState {
+    const query = this.db.query("SELECT * FROM timer_state WHERE id = $id");
+    const row = query.get({ $id: this.userId }) as TimerState | null;
+
+    if (row) {
+      return row;
     }
-    
-    const query = this.db.query("SELECT * FROM pomodoro_sessions ORDER BY started_at DESC");
-    return query.all() as PomodoroSession[];
+
+    return {
+      id: this.userId,
+      status: "idle",
+      type: "work",
+      session_id: null,
+      task_id: null,
+      duration: this.getTimerPreferences().work_duration * 60,
+      started_at: null,
+      paused_at: null,
+      paused_seconds: 0,
+      session_count: 0,
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  saveTimerState(state: Omit<TimerState, "id" | "updated_at">): TimerState {
+    const newState: TimerState = {
+      ...state,
+      id: this.userId,
+      updated_at: new Date().toISOString(),
+    };
+
+    const query = this.db.query(`
+      INSERT OR REPLACE INTO timer_state (
+        id, status, type, session_id, task_id, duration,
+        started_at, paused_at, paused_seconds, session_count, updated_at
+      )
+      VALUES (
+        $id, $status, $type, $session_id, $task_id, $duration,
+        $started_at, $paused_at, $paused_seconds, $session_count, $updated_at
+      )
+    `);
+
+    query.run({
+      $id: newState.id,
+      $status: newState.status,
+      $type: newState.type,
+      $session_id: newState.session_id,
+      $task_id: newState.task_id,
+      $duration: newState.duration,
+      $started_at: newState.started_at,
+      $paused_at: newState.paused_at,
+      $paused_seconds: newState.paused_seconds,
+      $session_count: newState.session_count,
+      $updated_at: newState.updated_at,
+    });
+
+    return newState;
+  }
+
+  // Users whose timer is running, so it can be picked back up after a restart
+  getRunningTimerUserIds(): string[] {
+    const query = this.db.query("SELECT id FROM timer_state WHERE status = 'running'");
+    return (query.all() as { id: string }[]).map(row => row.id);
   }
 
   close() {
@@ -206,5 +2175,5 @@ class TodoDatabase {
   }
 }
 
-// Create a singleton instance
+// Create a singleton instance; scope it to a user with forUser
 export const db = new TodoDatabase();
\ No newline at end of file
@@ -0,0 +1,49 @@
+/**
+ * Calendar helpers shared by the server and the frontend. Tasks are keyed by
+ * local ISO dates ('YYYY-MM-DD') and weeks start on Monday.
+ */
+
+export const WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toISODate(date: Date): string {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+// Local midnight of the given date
+export function parseISODate(day: string): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year!, month! - 1, date);
+}
+
+export function isISODate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    ISO_DATE_PATTERN.test(value) &&
+    toISODate(parseISODate(value)) === value
+  );
+}
+
+export function today(): string {
+  return toISODate(new Date());
+}
+
+export function addDays(day: string, amount: number): string {
+  const date = parseISODate(day);
+  date.setDate(date.getDate() + amount);
+  return toISODate(date);
+}
+
+// The Monday of the week the given date falls in
+export function startOfWeek(day: string): string {
+  const weekday = (parseISODate(day).getDay() + 6) % 7;
+  return addDays(day, -weekday);
+}
+
+export function weekDates(weekStart: string): string[] {
+  return WEEKDAYS.map((_, index) => addDays(weekStart, index));
+}
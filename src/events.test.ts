@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { BoardEventLog } from "./events";
+
+describe("BoardEventLog", () => {
+  test("numbers each board's events on their own", () => {
+    const log = new BoardEventLog<{ type: string }>();
+
+    expect(log.record("a", { type: "task_created" }).seq).toBe(1);
+    expect(log.record("a", { type: "task_updated" }).seq).toBe(2);
+    expect(log.record("b", { type: "task_created" }).seq).toBe(1);
+    expect(log.latest("a")).toBe(2);
+    expect(log.latest("c")).toBe(0);
+  });
+
+  test("returns the events after a position, oldest first", () => {
+    const log = new BoardEventLog<{ type: string }>();
+    ["one", "two", "three"].forEach(type => log.record("a", { type }));
+
+    expect(log.since("a", { epoch: log.epoch, seq: 1 })).toEqual([
+      { type: "two", seq: 2 },
+      { type: "three", seq: 3 },
+    ]);
+    expect(log.since("a", { epoch: log.epoch, seq: 3 })).toEqual([]);
+  });
+
+  test("can't tell events from another run or older than those kept", () => {
+    const log = new BoardEventLog<{ type: string }>(2);
+    ["one", "two", "three"].forEach(type => log.record("a", { type }));
+
+    expect(log.since("a", { epoch: "earlier-run", seq: 2 })).toBeNull();
+    expect(log.since("a", { epoch: log.epoch, seq: 0 })).toBeNull();
+    expect(log.since("a", { epoch: log.epoch, seq: 1 })).toHaveLength(2);
+    expect(log.since("a", { epoch: log.epoch, seq: 4 })).toBeNull();
+  });
+
+  test("starts a forgotten board over", () => {
+    const log = new BoardEventLog<{ type: string }>();
+    log.record("a", { type: "task_created" });
+    log.forget("a");
+
+    expect(log.latest("a")).toBe(0);
+    expect(log.since("a", { epoch: log.epoch, seq: 1 })).toBeNull();
+  });
+});
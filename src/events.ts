@@ -0,0 +1,66 @@
+/**
+ * Numbers the events published to each board so that a client can tell when
+ * it missed some, and keeps the latest ones so that a client coming back from
+ * a dropped connection can be sent just those instead of the whole board.
+ */
+
+// Sent along with every board event
+export interface Sequenced {
+  seq: number;
+}
+
+// Where a client got to: `epoch` tells one server run's numbering from another's
+export interface EventPosition {
+  epoch: string;
+  seq: number;
+}
+
+// How many recent events are kept per board
+const DEFAULT_CAPACITY = 500;
+
+export class BoardEventLog<Event extends object = object> {
+  // Sequence numbers start over when the server does
+  readonly epoch = crypto.randomUUID();
+  private boards = new Map<string, { seq: number; recent: (Event & Sequenced)[] }>();
+
+  constructor(private capacity = DEFAULT_CAPACITY) {}
+
+  // Gives an event the board's next sequence number and remembers it
+  record(boardId: string, event: Event): Event & Sequenced {
+    const board = this.boards.get(boardId) ?? { seq: 0, recent: [] };
+    this.boards.set(boardId, board);
+
+    const sequenced = { ...event, seq: ++board.seq };
+    board.recent.push(sequenced);
+    if (board.recent.length > this.capacity) {
+      board.recent.shift();
+    }
+    return sequenced;
+  }
+
+  // The number of the board's latest event, 0 before the first
+  latest(boardId: string): number {
+    return this.boards.get(boardId)?.seq ?? 0;
+  }
+
+  /**
+   * The events after `position`, oldest first, or null when they can't all be
+   * told: the position is from another server run, or is older than the
+   * events kept.
+   */
+  since(boardId: string, position: EventPosition): (Event & Sequenced)[] | null {
+    if (position.epoch !== this.epoch || position.seq > this.latest(boardId)) {
+      return null;
+    }
+
+    const recent = this.boards.get(boardId)?.recent ?? [];
+    const missed = recent.filter(event => event.seq > position.seq);
+    const expected = this.latest(boardId) - position.seq;
+    return missed.length === expected ? missed : null;
+  }
+
+  // Drops a deleted board's events
+  forget(boardId: string) {
+    this.boards.delete(boardId);
+  }
+}
@@ -1,7 +1,257 @@
 import { serve } from "bun";
+import type { ServerWebSocket } from "bun";
 import index from "./index.html";
-import { db } from "./database";
-import type { Task } from "./database";
+import { db as accounts } from "./database";
+import type { ActivityRevert, BoardRole, BoardSummary, SeriesChange, Task, TodoDatabase } from "./database";
+import { endSession, getSession, startSession } from "./auth";
+import type { Session } from "./auth";
+import { PomodoroClock } from "./timer";
+import { BoardEventLog } from "./events";
+import type { Presence } from "./presence";
+import { addDays, startOfWeek, today } from "./dates";
+import { buildSearchQuery } from "./search";
+import {
+  TIMER_COMMANDS,
+  activityQuerySchema,
+  boardCreateSchema,
+  boardUpdateSchema,
+  hasRole,
+  inviteCreateSchema,
+  loginSchema,
+  memberUpdateSchema,
+  registerSchema,
+  searchQuerySchema,
+  sessionAbandonSchema,
+  sessionCreateSchema,
+  sessionQuerySchema,
+  socketMessageSchema,
+  statsQuerySchema,
+  subtaskCreateSchema,
+  subtaskReorderSchema,
+  subtaskUpdateSchema,
+  tagCreateSchema,
+  tagUpdateSchema,
+  taskBatchSchema,
+  taskCreateSchema,
+  taskDeleteQuerySchema,
+  taskMoveSchema,
+  taskQuerySchema,
+  taskReorderSchema,
+  taskUpdateSchema,
+  timerCommandSchema,
+  timerPreferencesSchema,
+} from "./schemas";
+import { formatFieldError, oneOf } from "./validation";
+import type { FieldError, Schema } from "./validation";
+
+// Rejects a request, listing every problem found with it
+function invalidRequest(errors: FieldError[], status: number): Response {
+  return Response.json(
+    { error: errors.map(formatFieldError).join("; "), errors },
+    { status }
+  );
+}
+
+/**
+ * The request's JSON body, validated against `schema`, or the response that
+ * rejects it: 400 when it isn't JSON, 422 when it doesn't fit the schema. An
+ * optional body may be left out entirely.
+ */
+async function readBody<T>(
+  req: Request,
+  schema: Schema<T>,
+  { optional = false } = {}
+): Promise<T | Response> {
+  const text = await req.text();
+  let body: unknown = {};
+
+  if (text.trim() || !optional) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return invalidRequest([{ path: "", message: "Request body must be valid JSON" }], 400);
+    }
+  }
+
+  const result = schema.parse(body);
+  return result.ok ? result.value : invalidRequest(result.errors, 422);
+}
+
+// The request's query parameters validated against `schema`, or a 400 response
+function readQuery<T>(req: Request, schema: Schema<T>): T | Response {
+  const params = Object.fromEntries(new URL(req.url).searchParams);
+  const result = schema.parse(params);
+  return result.ok ? result.value : invalidRequest(result.errors, 400);
+}
+
+// The signed-in user's session, or the 401 response that turns the request away
+function requireSession(req: Request): Session | Response {
+  return getSession(req) ?? Response.json({ error: "Not signed in" }, { status: 401 });
+}
+
+interface BoardAccess extends Session {
+  board: BoardSummary;
+}
+
+/**
+ * The signed-in user's access to a board, with `db` scoped to it, or the
+ * response that turns the request away: 404 when they aren't a member, so
+ * other boards can't be probed for, and 403 when their role is below `role`.
+ */
+function requireBoard(req: Request, boardId: string, role: BoardRole): BoardAccess | Response {
+  const auth = requireSession(req);
+  if (auth instanceof Response) return auth;
+
+  const board = auth.db.getBoard(boardId);
+  if (!board) {
+    return Response.json({ error: "Board not found" }, { status: 404 });
+  }
+  if (!hasRole(board.role, role)) {
+    return Response.json({ error: `Only a board ${role} can do this` }, { status: 403 });
+  }
+  return { ...auth, db: auth.db.onBoard(boardId), board };
+}
+
+// Tasks can only be assigned to members of their board
+function checkAssignee(db: TodoDatabase, boardId: string, assigneeId: string | null | undefined): Response | null {
+  if (!assigneeId || db.getBoardMembers(boardId).some(member => member.user_id === assigneeId)) {
+    return null;
+  }
+  return invalidRequest([{ path: "assignee_id", message: "must be a member of the board" }], 422);
+}
+
+// Task events go to everyone watching a board, timer events to the user's own sockets
+const topic = (channel: "board" | "pomodoro", id: string) => `${channel}:${id}`;
+
+// Board events are numbered, so clients can catch up on the ones they missed
+const boardEvents = new BoardEventLog<{ type: string }>();
+
+function publishToBoard<Event extends { type: string }>(boardId: string, event: Event) {
+  server.publish(topic("board", boardId), JSON.stringify(boardEvents.record(boardId, event)));
+}
+
+// Everything a client needs to start over on a board, numbered like its events
+function boardSnapshot(userId: string, boardId: string) {
+  const db = accounts.forUser(userId).onBoard(boardId);
+  const tasks = db.getAllTasks();
+  return {
+    type: "snapshot",
+    boardId,
+    seq: boardEvents.latest(boardId),
+    tasks,
+    series: db.getTaskSeriesFor(tasks),
+    subtasks: db.getSubtasksForTasks(tasks.map(task => task.id)),
+    tags: db.getTags(),
+  };
+}
+
+// The id a client gave the change it asked for, sent back on the events it
+// causes so the client can tell them from everyone else's
+const mutationIdOf = (req: Request) => req.headers.get("X-Mutation-Id")?.slice(0, 100) || undefined;
+
+function publishSeriesChange(boardId: string, change: SeriesChange, mutationId?: string) {
+  publishToBoard(boardId, { type: "series_changed", ...change, mutationId });
+}
+
+// Occurrences of recurring tasks are created at most this many days ahead
+const SERIES_HORIZON_DAYS = 8 * 7;
+
+// Trashed tasks are deleted for good after this many days
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS ?? 30);
+if (!Number.isInteger(TRASH_RETENTION_DAYS) || TRASH_RETENTION_DAYS < 1) {
+  throw new Error("TRASH_RETENTION_DAYS must be a whole number of days");
+}
+
+// How often purgeExpired runs
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+// Deletes trashed tasks past their retention and sign-ins past their expiry
+function purgeExpired() {
+  try {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const purged = accounts.getUserIds().flatMap(userId => accounts.forUser(userId).purgeTrash(cutoff));
+    if (purged.length > 0) {
+      console.log(`Purged ${purged.length} task(s) from the trash`);
+    }
+    accounts.purgeExpiredSessions();
+  } catch (error) {
+    console.error("Error purging expired data:", error);
+  }
+}
+
+function publishActivityRevert(
+  boardId: string,
+  type: "activity_undone" | "activity_redone",
+  revert: ActivityRevert
+) {
+  publishToBoard(boardId, { type, ...revert });
+}
+
+// Each user's timer, created the first time it's needed
+const timers = new Map<string, PomodoroClock>();
+
+function timerFor(userId: string): PomodoroClock {
+  let timer = timers.get(userId);
+  if (!timer) {
+    // Timer events go to the same topic as the session events
+    timer = new PomodoroClock(accounts.forUser(userId), (message) => {
+      server.publish(topic("pomodoro", userId), JSON.stringify(message));
+    });
+    // Picks a timer that was running before a restart back up
+    timer.restore();
+    timers.set(userId, timer);
+  }
+  return timer;
+}
+
+interface SocketData {
+  socketId: string;
+  userId: string;
+  name: string;
+  boardId: string | null; // the board whose task events the socket gets
+  day: string | null; // on that board, see Presence
+  editingTaskId: string | null;
+}
+
+// Each user's open sockets, so losing a board can end their subscriptions to it
+const sockets = new Map<string, Set<ServerWebSocket<SocketData>>>();
+
+// Leaves the board a socket is on, if any, and tells the people still there
+function leaveBoard(ws: ServerWebSocket<SocketData>) {
+  const { boardId } = ws.data;
+  if (!boardId) return;
+
+  ws.unsubscribe(topic("board", boardId));
+  Object.assign(ws.data, { boardId: null, day: null, editingTaskId: null });
+  publishPresence(boardId);
+}
+
+function revokeBoardAccess(userId: string, boardId: string) {
+  for (const ws of sockets.get(userId) ?? []) {
+    if (ws.data.boardId === boardId) {
+      leaveBoard(ws);
+      ws.send(JSON.stringify({ type: "board_access_revoked", boardId }));
+    }
+  }
+}
+
+// Presence isn't numbered: a client that missed some gets the whole list on subscribing
+function publishPresence(boardId: string) {
+  const presence: Presence[] = [...sockets.values()]
+    .flatMap(own => [...own])
+    .filter(ws => ws.data.boardId === boardId)
+    .map(({ data }) => ({
+      socketId: data.socketId,
+      userId: data.userId,
+      name: data.name,
+      day: data.day,
+      editingTaskId: data.editingTaskId,
+    }));
+  server.publish(topic("board", boardId), JSON.stringify({ type: "presence_changed", boardId, presence }));
+}
+
+// Invite links work for a week unless asked otherwise
+const INVITE_DURATION_DAYS = 7;
 
 const server: ReturnType<typeof serve> = serve({
   port: 5173,
@@ -9,135 +259,1210 @@ const server: ReturnType<typeof serve> = serve({
     // Serve index.html for all unmatched routes.
     "/*": index,
 
-    // Task API endpoints
-    "/api/tasks": {
+    // Account endpoints
+    "/api/auth/register": {
+      async POST(req) {
+        try {
+          const body = await readBody(req, registerSchema);
+          if (body instanceof Response) return body;
+          const { email, name, password } = body;
+
+          if (accounts.getUserCredentials(email)) {
+            return Response.json(
+              { error: "Email already registered" },
+              { status: 409 }
+            );
+          }
+
+          const user = accounts.createUser({
+            email,
+            name,
+            password_hash: await Bun.password.hash(password),
+          });
+
+          return Response.json(
+            { user },
+            { status: 201, headers: { "Set-Cookie": startSession(user) } }
+          );
+        } catch (error) {
+          // Checked above too, but a sign-up racing this one may still get there first
+          if (error instanceof Error && error.message === "Email already registered") {
+            return Response.json({ error: error.message }, { status: 409 });
+          }
+          console.error("Error registering:", error);
+          return Response.json(
+            { error: "Failed to register" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/auth/login": {
+      async POST(req) {
+        try {
+          const body = await readBody(req, loginSchema);
+          if (body instanceof Response) return body;
+
+          const credentials = accounts.getUserCredentials(body.email);
+          if (!credentials || !(await Bun.password.verify(body.password, credentials.password_hash))) {
+            return Response.json(
+              { error: "Wrong email or password" },
+              { status: 401 }
+            );
+          }
+
+          const { password_hash, ...user } = credentials;
+          return Response.json({ user }, { headers: { "Set-Cookie": startSession(user) } });
+        } catch (error) {
+          console.error("Error logging in:", error);
+          return Response.json(
+            { error: "Failed to log in" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/auth/logout": {
+      async POST(req) {
+        try {
+          return Response.json({ success: true }, { headers: { "Set-Cookie": endSession(req) } });
+        } catch (error) {
+          console.error("Error logging out:", error);
+          return Response.json(
+            { error: "Failed to log out" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/auth/me": {
+      async GET(req) {
+        const auth = requireSession(req);
+        if (auth instanceof Response) return auth;
+        return Response.json({ user: auth.user });
+      },
+    },
+
+    // Board endpoints
+    "/api/boards": {
+      async GET(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          return Response.json({ boards: db.getBoards() });
+        } catch (error) {
+          console.error("Error fetching boards:", error);
+          return Response.json(
+            { error: "Failed to fetch boards" },
+            { status: 500 }
+          );
+        }
+      },
+      async POST(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const body = await readBody(req, boardCreateSchema);
+          if (body instanceof Response) return body;
+
+          return Response.json({ board: db.createBoard(body.name) }, { status: 201 });
+        } catch (error) {
+          console.error("Error creating board:", error);
+          return Response.json(
+            { error: "Failed to create board" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId": {
+      async GET(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "viewer");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          return Response.json({ board, members: db.getBoardMembers(board.id) });
+        } catch (error) {
+          console.error("Error fetching board:", error);
+          return Response.json(
+            { error: "Failed to fetch board" },
+            { status: 500 }
+          );
+        }
+      },
+      async PUT(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "owner");
+          if (auth instanceof Response) return auth;
+          const { board: { id }, db } = auth;
+          const body = await readBody(req, boardUpdateSchema);
+          if (body instanceof Response) return body;
+
+          const board = db.updateBoard(id, body.name)!;
+
+          // Members see the board under its role, so they refetch rather than take this copy
+          publishToBoard(id, { type: "board_updated", id, name: board.name });
+
+          return Response.json({ board });
+        } catch (error) {
+          console.error("Error updating board:", error);
+          return Response.json(
+            { error: "Failed to update board" },
+            { status: 500 }
+          );
+        }
+      },
+      async DELETE(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "owner");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+
+          const members = db.getBoardMembers(board.id);
+          db.deleteBoard(board.id);
+          members.forEach(member => revokeBoardAccess(member.user_id, board.id));
+          boardEvents.forget(board.id);
+
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting board:", error);
+          return Response.json(
+            { error: "Failed to delete board" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/members/:userId": {
+      async PUT(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "owner");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const body = await readBody(req, memberUpdateSchema);
+          if (body instanceof Response) return body;
+
+          const member = db.setMemberRole(board.id, req.params.userId, body.role);
+          if (!member) {
+            return Response.json({ error: "Member not found" }, { status: 404 });
+          }
+
+          publishToBoard(board.id, { type: "members_changed", members: db.getBoardMembers(board.id) });
+
+          return Response.json({ member });
+        } catch (error) {
+          if (error instanceof Error && error.message === "A board needs at least one owner") {
+            return Response.json({ error: error.message }, { status: 409 });
+          }
+          console.error("Error updating member:", error);
+          return Response.json(
+            { error: "Failed to update member" },
+            { status: 500 }
+          );
+        }
+      },
+      // Owners remove members; anyone may remove themselves to leave
+      async DELETE(req) {
+        try {
+          const { boardId, userId } = req.params;
+          const session = getSession(req);
+          const role = session?.user.id === userId ? "viewer" : "owner";
+          const auth = requireBoard(req, boardId, role);
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+
+          if (!db.removeMember(board.id, userId)) {
+            return Response.json({ error: "Member not found" }, { status: 404 });
+          }
+          revokeBoardAccess(userId, board.id);
+
+          publishToBoard(board.id, { type: "members_changed", members: db.getBoardMembers(board.id) });
+
+          return Response.json({ success: true });
+        } catch (error) {
+          if (error instanceof Error && error.message === "A board needs at least one owner") {
+            return Response.json({ error: error.message }, { status: 409 });
+          }
+          console.error("Error removing member:", error);
+          return Response.json(
+            { error: "Failed to remove member" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/invites": {
+      async GET(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "owner");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          return Response.json({ invites: db.getInvites(board.id) });
+        } catch (error) {
+          console.error("Error fetching invites:", error);
+          return Response.json(
+            { error: "Failed to fetch invites" },
+            { status: 500 }
+          );
+        }
+      },
+      async POST(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "owner");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const body = await readBody(req, inviteCreateSchema);
+          if (body instanceof Response) return body;
+          const { role, days = INVITE_DURATION_DAYS } = body;
+
+          const expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+          return Response.json({ invite: db.createInvite(board.id, role, expiresAt) }, { status: 201 });
+        } catch (error) {
+          console.error("Error creating invite:", error);
+          return Response.json(
+            { error: "Failed to create invite" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/invites/:token": {
+      async DELETE(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "owner");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          if (!db.deleteInvite(board.id, req.params.token)) {
+            return Response.json({ error: "Invite not found" }, { status: 404 });
+          }
+
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting invite:", error);
+          return Response.json(
+            { error: "Failed to delete invite" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Anyone signed in with the link can see what they're invited to
+    "/api/invites/:token": {
+      async GET(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const invite = db.getInvite(req.params.token);
+          if (!invite) {
+            return Response.json({ error: "This invite has expired or was withdrawn" }, { status: 404 });
+          }
+
+          return Response.json({
+            board: { id: invite.board_id, name: invite.board_name },
+            role: invite.role,
+            expires_at: invite.expires_at,
+            member: db.getBoard(invite.board_id) !== null,
+          });
+        } catch (error) {
+          console.error("Error fetching invite:", error);
+          return Response.json(
+            { error: "Failed to fetch invite" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/invites/:token/accept": {
+      async POST(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const board = db.acceptInvite(req.params.token);
+          if (!board) {
+            return Response.json({ error: "This invite has expired or was withdrawn" }, { status: 404 });
+          }
+
+          publishToBoard(board.id, { type: "members_changed", members: db.getBoardMembers(board.id) });
+
+          return Response.json({ board });
+        } catch (error) {
+          console.error("Error accepting invite:", error);
+          return Response.json(
+            { error: "Failed to accept invite" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Task API endpoints
+    "/api/boards/:boardId/tasks": {
+      async GET(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "viewer");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const query = readQuery(req, taskQuerySchema);
+          if (query instanceof Response) return query;
+          const { day, from, to, tag, assignee } = query;
+          const filter = { tagId: tag, assigneeId: assignee };
+
+          if (!from !== !to) {
+            return invalidRequest(
+              [{ path: from ? "to" : "from", message: "is required when the other end of the range is given" }],
+              400
+            );
+          }
+
+          // Recurring tasks get their occurrences created as their dates come into
+          // view, up to a horizon. Only an editor's read does that; viewers see
+          // the ones created so far
+          if (hasRole(board.role, "editor")) {
+            const wanted = to ?? day ?? addDays(startOfWeek(today()), 6);
+            const horizon = addDays(today(), SERIES_HORIZON_DAYS);
+            const created = db.materializeTaskSeries(wanted < horizon ? wanted : horizon);
+            if (created.length > 0) {
+              publishSeriesChange(board.id, { tasks: created, deletedIds: [], series: [] });
+            }
+          }
+
+          let tasks: Task[];
+          if (day) {
+            tasks = db.getTasksByDay(day, filter);
+          } else if (from && to) {
+            tasks = db.getTasksInRange(from, to, filter);
+          } else {
+            tasks = db.getAllTasks(filter);
+          }
+
+          return Response.json({
+            tasks,
+            series: db.getTaskSeriesFor(tasks),
+            subtasks: db.getSubtasksForTasks(tasks.map(task => task.id)),
+          });
+        } catch (error) {
+          console.error("Error fetching tasks:", error);
+          return Response.json(
+            { error: "Failed to fetch tasks" },
+            { status: 500 }
+          );
+        }
+      },
+      async POST(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const body = await readBody(req, taskCreateSchema);
+          if (body instanceof Response) return body;
+          const { id, title, description, day, recurrence: rule, tag_ids = [], assignee_id = null } = body;
+
+          // Sent before; the client never heard back
+          const existing = id ? db.getTask(id) : null;
+          if (existing) {
+            return Response.json({ task: existing, activityId: null });
+          }
+          if (id && db.isTaskIdTaken(id)) {
+            return Response.json({ error: "Task id already in use" }, { status: 409 });
+          }
+
+          const invalidAssignee = checkAssignee(db, board.id, assignee_id);
+          if (invalidAssignee) return invalidAssignee;
+
+          if (rule) {
+            const series = db.createTaskSeries({ title, description, rule, start_date: day });
+            // Later occurrences take their tags and assignee from these
+            const tasks = db.materializeTaskSeries(addDays(startOfWeek(day), 6), series.id)
+              .map(task => db.setTaskTags(task.id, tag_ids)!)
+              .map(task => (assignee_id ? db.updateTask(task.id, { assignee_id })! : task));
+            const change = { tasks, deletedIds: [], series: [db.getTaskSeries(series.id)!] };
+            publishSeriesChange(board.id, change, mutationIdOf(req));
+
+            const activity = db.recordActivity(
+              "create",
+              tasks[0]?.id ?? null,
+              { tasks: [], series: [] },
+              db.captureState(tasks.map(task => task.id))
+            );
+
+            return Response.json({ task: tasks[0] ?? null, ...change, activityId: activity?.id ?? null });
+          }
+
+          const task = db.createTask({
+            id,
+            title,
+            description,
+            day,
+            priority: 1,
+            completed: false,
+            assignee_id,
+            tag_ids,
+          });
+
+          // Broadcast to all connected WebSocket clients
+          publishToBoard(board.id, { type: "task_created", task, mutationId: mutationIdOf(req) });
+
+          const activity = db.recordActivity("create", task.id, { tasks: [], series: [] }, db.captureState([task.id]));
+
+          return Response.json({ task, activityId: activity?.id ?? null });
+        } catch (error) {
+          console.error("Error creating task:", error);
+          return Response.json(
+            { error: "Failed to create task" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/tasks/:id": {
+      async PUT(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id } = req.params;
+          const body = await readBody(req, taskUpdateSchema);
+          if (body instanceof Response) return body;
+          const { scope = "this", recurrence: rule, tag_ids, version, ...updates } = body;
+
+          const existing = db.getTask(id);
+          if (!existing) {
+            return Response.json({ error: "Task not found" }, { status: 404 });
+          }
+          // Someone else saved first; the client gets their copy to merge with
+          if (version !== undefined && version !== existing.version) {
+            return Response.json(
+              { error: "Task was changed by someone else", task: existing },
+              { status: 409 }
+            );
+          }
+          const invalidAssignee = checkAssignee(db, board.id, updates.assignee_id);
+          if (invalidAssignee) return invalidAssignee;
+
+          // Series edits can reach the later occurrences, so those are logged too
+          const before = db.captureState(
+            existing.series_id ? [id, ...db.getSeriesTaskIds(existing.series_id, existing.day)] : [id]
+          );
+
+          let task = db.updateTask(id, updates)!;
+
+          if (tag_ids !== undefined) {
+            task = db.setTaskTags(id, tag_ids)!;
+          }
+
+          // Opting in when every subtask is already done finishes the task right away
+          if (updates.auto_complete_subtasks) {
+            task = db.autoCompleteTask(id) ?? task;
+          }
+
+          // Broadcast to all connected WebSocket clients
+          publishToBoard(board.id, { type: "task_updated", task, mutationId: mutationIdOf(req) });
+
+          // Changing the rule always affects the rest of the series; title and
+          // description edits only do when asked to
+          let change: SeriesChange | null = null;
+          if (rule) {
+            change = db.splitTaskSeries(task, rule);
+          } else if (rule === null && task.series_id) {
+            change = db.endTaskSeries(task.series_id, task.day);
+          } else if (scope === "future" && task.series_id) {
+            const { title, description } = updates;
+            if (title !== undefined || description !== undefined) {
+              change = db.updateFutureOccurrences(task, { title, description });
+            }
+          }
+          if (change) {
+            publishSeriesChange(board.id, change, mutationIdOf(req));
+          }
+
+          const activity = db.recordActivity("update", id, before, db.captureState([
+            ...before.tasks.map(t => t.id),
+            ...(change?.tasks.map(t => t.id) ?? []),
+          ]));
+
+          return Response.json({ task: db.getTask(id), activityId: activity?.id ?? null });
+        } catch (error) {
+          console.error("Error updating task:", error);
+          return Response.json(
+            { error: "Failed to update task" },
+            { status: 500 }
+          );
+        }
+      },
+      async DELETE(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id } = req.params;
+          const query = readQuery(req, taskDeleteQuerySchema);
+          if (query instanceof Response) return query;
+          const { scope = "this" } = query;
+          const task = db.getTask(id);
+
+          // Deleting this and all later occurrences ends the series the day before
+          if (scope === "future" && task?.series_id) {
+            const before = db.captureState(db.getSeriesTaskIds(task.series_id, task.day));
+            const change = db.endTaskSeries(task.series_id, addDays(task.day, -1));
+            // A finished occurrence is kept by endTaskSeries, but this one was asked for
+            if (!change.deletedIds.includes(task.id) && db.deleteTask(task.id)) {
+              change.tasks = change.tasks.filter(t => t.id !== task.id);
+              change.deletedIds.push(task.id);
+            }
+            publishSeriesChange(board.id, change, mutationIdOf(req));
+
+            const activity = db.recordActivity(
+              "delete",
+              task.id,
+              before,
+              db.captureState(before.tasks.map(t => t.id))
+            );
+            return Response.json({ success: true, deletedIds: change.deletedIds, activityId: activity?.id ?? null });
+          }
+
+          const before = db.captureState([id]);
+          const deleted = db.deleteTask(id);
+
+          if (!deleted) {
+            return Response.json({ error: "Task not found" }, { status: 404 });
+          }
+
+          // Broadcast to all connected WebSocket clients
+          publishToBoard(board.id, { type: "task_deleted", id, mutationId: mutationIdOf(req) });
+
+          const activity = db.recordActivity("delete", id, before, db.captureState([id]));
+
+          return Response.json({ success: true, activityId: activity?.id ?? null });
+        } catch (error) {
+          console.error("Error deleting task:", error);
+          return Response.json(
+            { error: "Failed to delete task" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/tasks/:id/move": {
+      async POST(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id } = req.params;
+          const body = await readBody(req, taskMoveSchema);
+          if (body instanceof Response) return body;
+          const { day, index } = body;
+
+          const task = db.getTask(id);
+          if (!task) {
+            return Response.json({ error: "Task not found" }, { status: 404 });
+          }
+
+          const before = db.captureState(
+            [...db.getTasksByDay(task.day), ...db.getTasksByDay(day)].map(t => t.id)
+          );
+          const move = db.moveTask(id, day, index)!;
+
+          // One message carries both days so clients update them together
+          publishToBoard(board.id, { type: "task_moved", ...move, mutationId: mutationIdOf(req) });
+
+          const activity = db.recordActivity("move", id, before, db.captureState(before.tasks.map(t => t.id)));
+
+          return Response.json({ ...move, activityId: activity?.id ?? null });
+        } catch (error) {
+          console.error("Error moving task:", error);
+          return Response.json(
+            { error: "Failed to move task" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/tasks/:id/history": {
+      async GET(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "viewer");
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const { id } = req.params;
+          if (!db.getTask(id)) {
+            return Response.json({ error: "Task not found" }, { status: 404 });
+          }
+
+          return Response.json({ history: db.getTaskHistory(id) });
+        } catch (error) {
+          console.error("Error fetching task history:", error);
+          return Response.json(
+            { error: "Failed to fetch task history" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/tasks/:id/subtasks": {
+      async GET(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "viewer");
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const { id } = req.params;
+          if (!db.getTask(id)) {
+            return Response.json({ error: "Task not found" }, { status: 404 });
+          }
+
+          return Response.json({ subtasks: db.getSubtasks(id) });
+        } catch (error) {
+          console.error("Error fetching subtasks:", error);
+          return Response.json(
+            { error: "Failed to fetch subtasks" },
+            { status: 500 }
+          );
+        }
+      },
+      async POST(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id } = req.params;
+          const body = await readBody(req, subtaskCreateSchema);
+          if (body instanceof Response) return body;
+
+          if (!db.getTask(id)) {
+            return Response.json({ error: "Task not found" }, { status: 404 });
+          }
+
+          const subtask = db.createSubtask(id, body.title);
+
+          // Broadcast to all connected WebSocket clients
+          publishToBoard(board.id, { type: "subtask_created", subtask });
+
+          return Response.json({ subtask });
+        } catch (error) {
+          console.error("Error creating subtask:", error);
+          return Response.json(
+            { error: "Failed to create subtask" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/tasks/:id/subtasks/reorder": {
+      async POST(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id } = req.params;
+          const body = await readBody(req, subtaskReorderSchema);
+          if (body instanceof Response) return body;
+
+          if (!db.getTask(id)) {
+            return Response.json({ error: "Task not found" }, { status: 404 });
+          }
+
+          db.reorderSubtasks(id, body.subtaskIds);
+          // The order as stored, without ids that aren't this task's
+          const subtaskIds = db.getSubtasks(id).map(subtask => subtask.id);
+
+          // Broadcast to all connected WebSocket clients
+          publishToBoard(board.id, { type: "subtasks_reordered", taskId: id, subtaskIds });
+
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error reordering subtasks:", error);
+          return Response.json(
+            { error: "Failed to reorder subtasks" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/tasks/:id/subtasks/:subtaskId": {
+      async PUT(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id, subtaskId } = req.params;
+          const updates = await readBody(req, subtaskUpdateSchema);
+          if (updates instanceof Response) return updates;
+
+          if (db.getSubtask(subtaskId)?.task_id !== id) {
+            return Response.json({ error: "Subtask not found" }, { status: 404 });
+          }
+
+          const subtask = db.updateSubtask(subtaskId, updates);
+
+          // Broadcast to all connected WebSocket clients
+          publishToBoard(board.id, { type: "subtask_updated", subtask });
+
+          // Ticking off the last subtask may finish the task itself
+          const task = db.autoCompleteTask(id);
+          if (task) {
+            publishToBoard(board.id, { type: "task_updated", task });
+          }
+
+          return Response.json({ subtask, task });
+        } catch (error) {
+          console.error("Error updating subtask:", error);
+          return Response.json(
+            { error: "Failed to update subtask" },
+            { status: 500 }
+          );
+        }
+      },
+      async DELETE(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id, subtaskId } = req.params;
+
+          if (db.getSubtask(subtaskId)?.task_id !== id || !db.deleteSubtask(subtaskId)) {
+            return Response.json({ error: "Subtask not found" }, { status: 404 });
+          }
+
+          // Broadcast to all connected WebSocket clients
+          publishToBoard(board.id, { type: "subtask_deleted", taskId: id, id: subtaskId });
+
+          // Removing the last unfinished subtask leaves only finished ones
+          const task = db.autoCompleteTask(id);
+          if (task) {
+            publishToBoard(board.id, { type: "task_updated", task });
+          }
+
+          return Response.json({ success: true, task });
+        } catch (error) {
+          console.error("Error deleting subtask:", error);
+          return Response.json(
+            { error: "Failed to delete subtask" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/tasks/reorder": {
+      async POST(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const body = await readBody(req, taskReorderSchema);
+          if (body instanceof Response) return body;
+          const { day, taskIds } = body;
+
+          const before = db.captureState([...db.getTasksByDay(day).map(task => task.id), ...taskIds]);
+          db.reorderTasks(day, taskIds);
+
+          // Broadcast to all connected WebSocket clients
+          publishToBoard(board.id, { type: "tasks_reordered", day, taskIds, mutationId: mutationIdOf(req) });
+
+          const activity = db.recordActivity("reorder", null, before, db.captureState(before.tasks.map(t => t.id)));
+
+          return Response.json({ success: true, activityId: activity?.id ?? null });
+        } catch (error) {
+          console.error("Error reordering tasks:", error);
+          return Response.json(
+            { error: "Failed to reorder tasks" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Several task changes at once, applied together or not at all
+    "/api/boards/:boardId/tasks/batch": {
+      async POST(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const body = await readBody(req, taskBatchSchema);
+          if (body instanceof Response) return body;
+          const { operations } = body;
+
+          const ids = operations.map(operation => operation.id);
+          if (new Set(ids).size !== ids.length) {
+            return invalidRequest([{ path: "operations", message: "must name each task only once" }], 422);
+          }
+          const tasks = ids.map(id => db.getTask(id));
+          if (tasks.includes(null)) {
+            return Response.json({ error: "Task not found" }, { status: 404 });
+          }
+          for (const operation of operations) {
+            const invalidAssignee = operation.op === "update"
+              ? checkAssignee(db, board.id, operation.changes.assignee_id)
+              : null;
+            if (invalidAssignee) return invalidAssignee;
+          }
+
+          // Every day it touches, since moves and deletes reorder them
+          const days = new Set([
+            ...tasks.map(task => task!.day),
+            ...operations.flatMap(operation => (operation.op === "move" ? [operation.day] : [])),
+          ]);
+          const before = db.captureState([...days].flatMap(day => db.getTasksByDay(day).map(task => task.id)));
+          const result = db.applyTaskBatch(operations);
+
+          // One message for the whole batch, so clients apply it at once
+          publishToBoard(board.id, { type: "tasks_batch", ...result, mutationId: mutationIdOf(req) });
+
+          const activity = db.recordActivity("batch", null, before, db.captureState(before.tasks.map(t => t.id)));
+
+          return Response.json({ ...result, activityId: activity?.id ?? null });
+        } catch (error) {
+          console.error("Error applying task batch:", error);
+          return Response.json(
+            { error: "Failed to apply task batch" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Trash API endpoints
+    "/api/boards/:boardId/trash": {
+      async GET(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "viewer");
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          return Response.json({ tasks: db.getTrash(), retentionDays: TRASH_RETENTION_DAYS });
+        } catch (error) {
+          console.error("Error fetching trash:", error);
+          return Response.json(
+            { error: "Failed to fetch trash" },
+            { status: 500 }
+          );
+        }
+      },
+      async DELETE(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const purgedIds = db.purgeTrash(new Date().toISOString());
+          if (purgedIds.length > 0) {
+            publishToBoard(board.id, { type: "tasks_purged", taskIds: purgedIds });
+          }
+
+          return Response.json({ success: true, purgedIds });
+        } catch (error) {
+          console.error("Error emptying trash:", error);
+          return Response.json(
+            { error: "Failed to empty trash" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/trash/:id/restore": {
+      async POST(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id } = req.params;
+          const task = db.restoreTask(id);
+          if (!task) {
+            return Response.json({ error: "Task not in trash" }, { status: 404 });
+          }
+
+          const subtasks = db.getSubtasks(id);
+          publishToBoard(board.id, { type: "task_restored", task, subtasks });
+
+          const activity = db.recordActivity("restore", id, { tasks: [], series: [] }, db.captureState([id]));
+
+          return Response.json({ task, subtasks, activityId: activity?.id ?? null });
+        } catch (error) {
+          console.error("Error restoring task:", error);
+          return Response.json(
+            { error: "Failed to restore task" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/boards/:boardId/trash/:id": {
+      async DELETE(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id } = req.params;
+          if (!db.purgeTask(id)) {
+            return Response.json({ error: "Task not in trash" }, { status: 404 });
+          }
+
+          publishToBoard(board.id, { type: "tasks_purged", taskIds: [id] });
+
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting task permanently:", error);
+          return Response.json(
+            { error: "Failed to delete task" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Activity log API endpoints
+    "/api/boards/:boardId/activity": {
       async GET(req) {
         try {
-          const url = new URL(req.url);
-          const day = url.searchParams.get("day");
+          const auth = requireBoard(req, req.params.boardId, "viewer");
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const query = readQuery(req, activityQuerySchema);
+          if (query instanceof Response) return query;
 
-          const tasks = day ? db.getTasksByDay(day) : db.getAllTasks();
-          return Response.json({ tasks });
+          const activity = db.getActivityLog(query.limit ?? 50, query.taskId);
+          return Response.json({ activity });
         } catch (error) {
-          console.error("Error fetching tasks:", error);
+          console.error("Error fetching activity:", error);
           return Response.json(
-            { error: "Failed to fetch tasks" },
+            { error: "Failed to fetch activity" },
             { status: 500 }
           );
         }
       },
+    },
+
+    "/api/boards/:boardId/activity/:id/undo": {
       async POST(req) {
         try {
-          const body = await req.json();
-          const { title, description, day } = body;
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const activity = db.getActivity(req.params.id);
+          if (!activity) {
+            return Response.json({ error: "Activity not found" }, { status: 404 });
+          }
+          if (activity.undone_at) {
+            return Response.json({ error: "Already undone" }, { status: 409 });
+          }
 
-          if (!title || !day) {
-            return Response.json(
-              { error: "Title and day are required" },
-              { status: 400 }
-            );
+          const revert = db.undoActivity(activity);
+          if (typeof revert === "string") {
+            return Response.json({ error: revert }, { status: 409 });
           }
 
-          const task = db.createTask({
-            title,
-            description,
-            day,
-            priority: 1,
-            completed: false,
-          });
+          publishActivityRevert(board.id, "activity_undone", revert);
 
-          // Broadcast to all connected WebSocket clients
-          server.publish(
-            "tasks",
-            JSON.stringify({ type: "task_created", task })
+          return Response.json(revert);
+        } catch (error) {
+          console.error("Error undoing activity:", error);
+          return Response.json(
+            { error: "Failed to undo" },
+            { status: 500 }
           );
+        }
+      },
+    },
 
-          return Response.json({ task });
+    "/api/boards/:boardId/activity/:id/redo": {
+      async POST(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const activity = db.getActivity(req.params.id);
+          if (!activity) {
+            return Response.json({ error: "Activity not found" }, { status: 404 });
+          }
+          if (!activity.undone_at) {
+            return Response.json({ error: "Not undone" }, { status: 409 });
+          }
+
+          const revert = db.redoActivity(activity);
+          if (typeof revert === "string") {
+            return Response.json({ error: revert }, { status: 409 });
+          }
+
+          publishActivityRevert(board.id, "activity_redone", revert);
+
+          return Response.json(revert);
         } catch (error) {
-          console.error("Error creating task:", error);
+          console.error("Error redoing activity:", error);
           return Response.json(
-            { error: "Failed to create task" },
+            { error: "Failed to redo" },
             { status: 500 }
           );
         }
       },
     },
 
-    "/api/tasks/:id": {
-      async PUT(req) {
+    "/api/boards/:boardId/search": {
+      async GET(req) {
         try {
-          const { id } = req.params;
-          const body = await req.json();
+          const auth = requireBoard(req, req.params.boardId, "viewer");
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const query = readQuery(req, searchQuerySchema);
+          if (query instanceof Response) return query;
+          const { q, limit = 20 } = query;
 
-          const task = db.updateTask(id, body);
-          if (!task) {
-            return Response.json({ error: "Task not found" }, { status: 404 });
-          }
+          const match = buildSearchQuery(q);
+          return Response.json({ results: match ? db.searchTasks(match, limit) : [] });
+        } catch (error) {
+          console.error("Error searching tasks:", error);
+          return Response.json(
+            { error: "Failed to search tasks" },
+            { status: 500 }
+          );
+        }
+      },
+    },
 
-          // Broadcast to all connected WebSocket clients
-          server.publish(
-            "tasks",
-            JSON.stringify({ type: "task_updated", task })
+    // Focus time on the board's tasks, per person
+    "/api/boards/:boardId/stats": {
+      async GET(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "viewer");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const query = readQuery(req, statsQuerySchema);
+          if (query instanceof Response) return query;
+          const { days = 30, tzOffset = 0 } = query;
+
+          return Response.json({
+            board: { id: board.id, name: board.name },
+            people: db.getFocusByPerson(days, tzOffset),
+          });
+        } catch (error) {
+          console.error("Error fetching board stats:", error);
+          return Response.json(
+            { error: "Failed to fetch board stats" },
+            { status: 500 }
           );
+        }
+      },
+    },
 
-          return Response.json({ task });
+    // Tag API endpoints
+    "/api/boards/:boardId/tags": {
+      async GET(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "viewer");
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          return Response.json({ tags: db.getTags() });
         } catch (error) {
-          console.error("Error updating task:", error);
+          console.error("Error fetching tags:", error);
           return Response.json(
-            { error: "Failed to update task" },
+            { error: "Failed to fetch tags" },
             { status: 500 }
           );
         }
       },
-      async DELETE(req) {
+      async POST(req) {
         try {
-          const { id } = req.params;
-          const deleted = db.deleteTask(id);
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const fields = await readBody(req, tagCreateSchema);
+          if (fields instanceof Response) return fields;
 
-          if (!deleted) {
-            return Response.json({ error: "Task not found" }, { status: 404 });
+          if (db.getTagByName(fields.name)) {
+            return Response.json(
+              { error: `A tag named "${fields.name}" already exists` },
+              { status: 409 }
+            );
           }
 
+          const tag = db.createTag(fields);
+
           // Broadcast to all connected WebSocket clients
-          server.publish("tasks", JSON.stringify({ type: "task_deleted", id }));
+          publishToBoard(board.id, { type: "tag_created", tag });
 
-          return Response.json({ success: true });
+          return Response.json({ tag });
         } catch (error) {
-          console.error("Error deleting task:", error);
+          console.error("Error creating tag:", error);
           return Response.json(
-            { error: "Failed to delete task" },
+            { error: "Failed to create tag" },
             { status: 500 }
           );
         }
       },
     },
 
-    "/api/tasks/reorder": {
-      async POST(req) {
+    "/api/boards/:boardId/tags/:id": {
+      async PUT(req) {
         try {
-          const body = await req.json();
-          const { day, taskIds } = body;
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id } = req.params;
+          const fields = await readBody(req, tagUpdateSchema);
+          if (fields instanceof Response) return fields;
 
-          if (!day || !Array.isArray(taskIds)) {
+          const existing = fields.name ? db.getTagByName(fields.name) : null;
+          if (existing && existing.id !== id) {
             return Response.json(
-              { error: "Day and taskIds array are required" },
-              { status: 400 }
+              { error: `A tag named "${fields.name}" already exists` },
+              { status: 409 }
             );
           }
 
-          db.reorderTasks(day, taskIds);
+          const tag = db.updateTag(id, fields);
+          if (!tag) {
+            return Response.json({ error: "Tag not found" }, { status: 404 });
+          }
 
           // Broadcast to all connected WebSocket clients
-          server.publish(
-            "tasks",
-            JSON.stringify({ type: "tasks_reordered", day, taskIds })
+          publishToBoard(board.id, { type: "tag_updated", tag });
+
+          return Response.json({ tag });
+        } catch (error) {
+          console.error("Error updating tag:", error);
+          return Response.json(
+            { error: "Failed to update tag" },
+            { status: 500 }
           );
+        }
+      },
+      async DELETE(req) {
+        try {
+          const auth = requireBoard(req, req.params.boardId, "editor");
+          if (auth instanceof Response) return auth;
+          const { board, db } = auth;
+          const { id } = req.params;
+          if (!db.deleteTag(id)) {
+            return Response.json({ error: "Tag not found" }, { status: 404 });
+          }
+
+          // Clients drop the tag from their tasks themselves
+          publishToBoard(board.id, { type: "tag_deleted", id });
 
           return Response.json({ success: true });
         } catch (error) {
-          console.error("Error reordering tasks:", error);
+          console.error("Error deleting tag:", error);
           return Response.json(
-            { error: "Failed to reorder tasks" },
+            { error: "Failed to delete tag" },
             { status: 500 }
           );
         }
@@ -148,10 +1473,13 @@ const server: ReturnType<typeof serve> = serve({
     "/api/pomodoro/sessions": {
       async GET(req) {
         try {
-          const url = new URL(req.url);
-          const taskId = url.searchParams.get("taskId") || undefined;
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const query = readQuery(req, sessionQuerySchema);
+          if (query instanceof Response) return query;
 
-          const sessions = db.getPomodoroSessions(taskId);
+          const sessions = db.getPomodoroSessions(query.taskId);
           return Response.json({ sessions });
         } catch (error) {
           console.error("Error fetching pomodoro sessions:", error);
@@ -163,14 +1491,15 @@ const server: ReturnType<typeof serve> = serve({
       },
       async POST(req) {
         try {
-          const body = await req.json();
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { user, db } = auth;
+          const body = await readBody(req, sessionCreateSchema);
+          if (body instanceof Response) return body;
           const { task_id, duration, type } = body;
 
-          if (!duration || !type) {
-            return Response.json(
-              { error: "Duration and type are required" },
-              { status: 400 }
-            );
+          if (task_id && !db.getTask(task_id)) {
+            return Response.json({ error: "Task not found" }, { status: 404 });
           }
 
           const session = db.createPomodoroSession({
@@ -183,7 +1512,7 @@ const server: ReturnType<typeof serve> = serve({
 
           // Broadcast to all connected WebSocket clients
           server.publish(
-            "pomodoro",
+            topic("pomodoro", user.id),
             JSON.stringify({ type: "session_started", session })
           );
 
@@ -201,19 +1530,37 @@ const server: ReturnType<typeof serve> = serve({
     "/api/pomodoro/sessions/:id/complete": {
       async POST(req) {
         try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { user, db } = auth;
           const { id } = req.params;
-          const session = db.completePomodoroSession(id);
 
-          if (!session) {
+          // The timer completes its own session when it runs out; doing it here
+          // too would count the pomodoro twice
+          const { status, session_id } = timerFor(user.id).getSnapshot();
+          if (status !== "idle" && session_id === id) {
+            return Response.json(
+              { error: "The timer is still running this session" },
+              { status: 409 }
+            );
+          }
+
+          const existing = db.getPomodoroSession(id);
+          if (!existing) {
             return Response.json(
               { error: "Session not found" },
               { status: 404 }
             );
           }
+          if (existing.outcome) {
+            return Response.json({ session: existing });
+          }
+
+          const session = db.completePomodoroSession(id)!;
 
           // Broadcast to all connected WebSocket clients
           server.publish(
-            "pomodoro",
+            topic("pomodoro", user.id),
             JSON.stringify({ type: "session_completed", session })
           );
 
@@ -228,10 +1575,231 @@ const server: ReturnType<typeof serve> = serve({
       },
     },
 
+    "/api/pomodoro/summary": {
+      async GET(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const query = readQuery(req, sessionQuerySchema);
+          if (query instanceof Response) return query;
+
+          const summaries = db.getTaskFocusSummaries(query.taskId);
+          return Response.json({ summaries });
+        } catch (error) {
+          console.error("Error fetching pomodoro summary:", error);
+          return Response.json(
+            { error: "Failed to fetch summary" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/pomodoro/timer": {
+      async GET(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { user } = auth;
+          return Response.json({ timer: timerFor(user.id).getSnapshot() });
+        } catch (error) {
+          console.error("Error fetching timer:", error);
+          return Response.json(
+            { error: "Failed to fetch timer" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/pomodoro/timer/:command": {
+      async POST(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { user } = auth;
+          const command = oneOf(TIMER_COMMANDS).parse(req.params.command, "command");
+          if (!command.ok) {
+            return invalidRequest(command.errors, 400);
+          }
+
+          // The body is optional; only start, skip, reset and switch take a payload
+          const payload = await readBody(req, timerCommandSchema, { optional: true });
+          if (payload instanceof Response) return payload;
+
+          const result = timerFor(user.id).execute(command.value, payload);
+          if (typeof result === "string") {
+            const status = result === "Task not found" ? 404 : 400;
+            return Response.json({ error: result }, { status });
+          }
+
+          return Response.json({ timer: result });
+        } catch (error) {
+          console.error("Error running timer command:", error);
+          return Response.json(
+            { error: "Failed to run timer command" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/stats": {
+      async GET(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const query = readQuery(req, statsQuerySchema);
+          if (query instanceof Response) return query;
+          const { days = 30, tzOffset = 0 } = query;
+
+          const stats = db.getPomodoroStats(days, tzOffset);
+          return Response.json({ stats });
+        } catch (error) {
+          console.error("Error fetching stats:", error);
+          return Response.json(
+            { error: "Failed to fetch stats" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/pomodoro/preferences": {
+      async GET(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const preferences = db.getTimerPreferences();
+          return Response.json({ preferences });
+        } catch (error) {
+          console.error("Error fetching timer preferences:", error);
+          return Response.json(
+            { error: "Failed to fetch preferences" },
+            { status: 500 }
+          );
+        }
+      },
+      async PUT(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { user, db } = auth;
+          const updates = await readBody(req, timerPreferencesSchema);
+          if (updates instanceof Response) return updates;
+
+          const preferences = db.updateTimerPreferences(updates);
+          timerFor(user.id).applyPreferences();
+
+          // Broadcast to all connected WebSocket clients
+          server.publish(
+            topic("pomodoro", user.id),
+            JSON.stringify({ type: "preferences_updated", preferences })
+          );
+
+          return Response.json({ preferences });
+        } catch (error) {
+          console.error("Error updating timer preferences:", error);
+          return Response.json(
+            { error: "Failed to update preferences" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/pomodoro/sessions/:id/abandon": {
+      async POST(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { user, db } = auth;
+          const { id } = req.params;
+          const body = await readBody(req, sessionAbandonSchema, { optional: true });
+          if (body instanceof Response) return body;
+
+          // The timer's own session is ended through it, or the timer would run
+          // on and complete it later; it publishes the events itself
+          const timer = timerFor(user.id);
+          const { status, session_id } = timer.getSnapshot();
+          if (status !== "idle" && session_id === id) {
+            timer.reset(body.reason ?? null);
+            return Response.json({ session: db.getPomodoroSession(id) });
+          }
+
+          const session = db.abandonPomodoroSession(id, body.reason ?? null);
+
+          if (!session) {
+            return Response.json(
+              { error: "Session not found" },
+              { status: 404 }
+            );
+          }
+
+          // Broadcast to all connected WebSocket clients
+          server.publish(
+            topic("pomodoro", user.id),
+            JSON.stringify({ type: "session_abandoned", session })
+          );
+
+          return Response.json({ session });
+        } catch (error) {
+          console.error("Error abandoning pomodoro session:", error);
+          return Response.json(
+            { error: "Failed to abandon session" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/pomodoro/sessions/:id": {
+      async GET(req) {
+        try {
+          const auth = requireSession(req);
+          if (auth instanceof Response) return auth;
+          const { db } = auth;
+          const { id } = req.params;
+          const session = db.getPomodoroSession(id);
+
+          if (!session) {
+            return Response.json(
+              { error: "Session not found" },
+              { status: 404 }
+            );
+          }
+
+          const pauses = db.getPomodoroPauses(id);
+          return Response.json({ session, pauses });
+        } catch (error) {
+          console.error("Error fetching pomodoro session:", error);
+          return Response.json(
+            { error: "Failed to fetch session" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
     // WebSocket endpoint
     "/ws": {
       async GET(req: Request): Promise<Response | undefined> {
-        const upgraded: boolean = server.upgrade(req);
+        const auth = requireSession(req);
+        if (auth instanceof Response) return auth;
+
+        const upgraded: boolean = server.upgrade(req, {
+          data: {
+            socketId: crypto.randomUUID(),
+            userId: auth.user.id,
+            name: auth.user.name,
+            boardId: null,
+            day: null,
+            editingTaskId: null,
+          },
+        });
         return upgraded
           ? undefined
           : new Response("Upgrade failed", { status: 500 });
@@ -240,19 +1808,88 @@ const server: ReturnType<typeof serve> = serve({
   },
 
   websocket: {
-    open(ws) {
+    open(ws: ServerWebSocket<SocketData>) {
       console.log("WebSocket connected");
-      ws.subscribe("tasks");
-      ws.subscribe("pomodoro");
+      ws.subscribe(topic("pomodoro", ws.data.userId));
+      const own = sockets.get(ws.data.userId) ?? new Set();
+      sockets.set(ws.data.userId, own.add(ws));
     },
-    message(ws, message) {
-      console.log("WebSocket message received:", message);
-      // Handle incoming messages if needed
+    message(ws: ServerWebSocket<SocketData>, message) {
+      try {
+        const parsed = socketMessageSchema.parse(JSON.parse(String(message)));
+        if (!parsed.ok) {
+          ws.send(JSON.stringify({
+            type: "error",
+            error: parsed.errors.map(formatFieldError).join("; "),
+            errors: parsed.errors,
+          }));
+          return;
+        }
+
+        const data = parsed.value;
+        switch (data.type) {
+          case "timer_command": {
+            const result = timerFor(ws.data.userId).execute(data.command, data.payload);
+            if (typeof result === "string") {
+              ws.send(JSON.stringify({ type: "error", error: result }));
+            }
+            break;
+          }
+          // Board events only go to members, checked as the socket subscribes
+          case "subscribe": {
+            if (!accounts.forUser(ws.data.userId).getBoard(data.boardId)) {
+              ws.send(JSON.stringify({ type: "error", error: "Board not found" }));
+              break;
+            }
+            leaveBoard(ws);
+            ws.data.boardId = data.boardId;
+            ws.subscribe(topic("board", data.boardId));
+
+            // A client coming back gets what it missed, or the whole board when
+            // that's no longer known
+            if (data.since) {
+              const missed = boardEvents.since(data.boardId, data.since);
+              if (missed) {
+                missed.forEach(event => ws.send(JSON.stringify(event)));
+              } else {
+                ws.send(JSON.stringify(boardSnapshot(ws.data.userId, data.boardId)));
+              }
+            }
+            ws.send(JSON.stringify({
+              type: "subscribed",
+              boardId: data.boardId,
+              socketId: ws.data.socketId,
+              epoch: boardEvents.epoch,
+              seq: boardEvents.latest(data.boardId),
+            }));
+            publishPresence(data.boardId);
+            break;
+          }
+          case "presence": {
+            if (!ws.data.boardId) {
+              ws.send(JSON.stringify({ type: "error", error: "Subscribe to a board first" }));
+              break;
+            }
+            ws.data.day = data.day;
+            ws.data.editingTaskId = data.editingTaskId;
+            publishPresence(ws.data.boardId);
+            break;
+          }
+        }
+      } catch (error) {
+        console.error("Error handling WebSocket message:", error);
+      }
     },
-    close(ws) {
+    close(ws: ServerWebSocket<SocketData>) {
       console.log("WebSocket disconnected");
-      ws.unsubscribe("tasks");
-      ws.unsubscribe("pomodoro");
+      ws.unsubscribe(topic("pomodoro", ws.data.userId));
+      const own = sockets.get(ws.data.userId);
+      own?.delete(ws);
+      if (own?.size === 0) {
+        sockets.delete(ws.data.userId);
+      }
+      // Out of `sockets` first, so the presence sent to the others leaves it out
+      leaveBoard(ws);
     },
   },
 
@@ -265,4 +1902,9 @@ const server: ReturnType<typeof serve> = serve({
   },
 });
 
+accounts.getRunningTimerUserIds().forEach(timerFor);
+
+purgeExpired();
+setInterval(purgeExpired, PURGE_INTERVAL);
+
 console.log(`🚀 Server running at ${server.url}`);
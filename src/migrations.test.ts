@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { copyFileSync, existsSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { startOfWeek, today, weekDates } from "./dates";
+import { MIGRATIONS, getSchemaVersion, migrate } from "./migrations";
+import type { Migration } from "./migrations";
+
+const LATEST = MIGRATIONS.at(-1)!.version;
+
+// The schema the app shipped with before migrations existed
+const BASELINE_SCHEMA = `
+  CREATE TABLE tasks (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    description TEXT,
+    day TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 1,
+    completed BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE pomodoro_sessions (
+    id TEXT PRIMARY KEY,
+    task_id TEXT,
+    duration INTEGER NOT NULL,
+    started_at TEXT NOT NULL,
+    completed_at TEXT,
+    type TEXT NOT NULL,
+    FOREIGN KEY (task_id) REFERENCES tasks (id) ON DELETE SET NULL
+  );
+  CREATE INDEX idx_tasks_day ON tasks (day);
+  CREATE INDEX idx_tasks_priority ON tasks (priority);
+  CREATE INDEX idx_pomodoro_task ON pomodoro_sessions (task_id);
+`;
+
+const columnsOf = (db: Database, table: string) =>
+  (db.query(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+
+const tableNames = (db: Database) =>
+  (db.query("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[])
+    .map(t => t.name);
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "todos-migrations-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function createBaselineDatabase(): Database {
+  const db = new Database(join(dir, "todos.db"));
+  db.exec(BASELINE_SCHEMA);
+
+  const now = "2025-08-26T00:00:00.000Z";
+  const insertTask = db.query(`
+    INSERT INTO tasks (id, title, description, day, priority, completed, created_at, updated_at)
+    VALUES ($id, $title, $description, $day, 1, FALSE, $now, $now)
+  `);
+  insertTask.run({ $id: "t1", $title: "Write report", $description: "Quarterly numbers", $day: "monday", $now: now });
+  insertTask.run({ $id: "t2", $title: "Groceries", $description: null, $day: "sunday", $now: now });
+
+  const insertSession = db.query(`
+    INSERT INTO pomodoro_sessions (id, task_id, duration, started_at, completed_at, type)
+    VALUES ($id, 't1', 1500, $now, $completed_at, 'work')
+  `);
+  insertSession.run({ $id: "s1", $now: now, $completed_at: now });
+  insertSession.run({ $id: "s2", $now: now, $completed_at: null });
+
+  return db;
+}
+
+describe("migrate", () => {
+  test("creates the latest schema in a new database", () => {
+    const db = new Database(join(dir, "todos.db"));
+    const result = migrate(db);
+
+    expect(result).toEqual({ from: 0, to: LATEST, backup: null });
+    expect(getSchemaVersion(db)).toBe(LATEST);
+    expect(tableNames(db)).toEqual(expect.arrayContaining([
+      "tasks", "pomodoro_sessions", "pomodoro_pauses", "timer_preferences", "timer_state",
+      "task_series", "subtasks", "tags", "task_tags", "tasks_fts", "activity_log",
+      "task_history", "users", "sessions", "boards", "board_members", "board_invites",
+    ]));
+    // Nothing to lose, so no backup
+    expect(readdirSync(dir).filter(name => name.endsWith(".bak"))).toEqual([]);
+    db.close();
+  });
+
+  test("upgrades the baseline schema and keeps its data", () => {
+    const db = createBaselineDatabase();
+    const result = migrate(db);
+
+    expect(result.from).toBe(0);
+    expect(result.to).toBe(LATEST);
+    expect(getSchemaVersion(db)).toBe(LATEST);
+
+    expect(columnsOf(db, "tasks"))
+      .toEqual(expect.arrayContaining(["series_id", "auto_complete_subtasks", "deleted_at", "user_id", "board_id"]));
+    expect(columnsOf(db, "pomodoro_sessions"))
+      .toEqual(expect.arrayContaining(["outcome", "abandoned_at", "interruption_reason", "focused_seconds", "user_id"]));
+
+    // Nobody owns the existing data until the first account is registered
+    expect(db.query("SELECT COUNT(*) AS count FROM tasks WHERE user_id IS NULL AND board_id IS NULL").get())
+      .toEqual({ count: 2 });
+
+    // Weekday names become dates in the current week
+    const week = weekDates(startOfWeek(today()));
+    const days = db.query("SELECT id, day FROM tasks ORDER BY id").all();
+    expect(days).toEqual([{ id: "t1", day: week[0] }, { id: "t2", day: week[6] }]);
+
+    // Completed sessions keep their time; the unfinished one was abandoned
+    const sessions = db.query("SELECT id, outcome, focused_seconds FROM pomodoro_sessions ORDER BY id").all();
+    expect(sessions).toEqual([
+      { id: "s1", outcome: "completed", focused_seconds: 1500 },
+      { id: "s2", outcome: "abandoned", focused_seconds: null },
+    ]);
+
+    // Existing tasks are searchable
+    const hits = db.query("SELECT task_id FROM tasks_fts WHERE tasks_fts MATCH 'quart*'").all();
+    expect(hits).toEqual([{ task_id: "t1" }]);
+
+    // and start their history with their creation
+    const history = db.query("SELECT task_id, change, changed_at FROM task_history ORDER BY task_id").all();
+    expect(history).toEqual([
+      { task_id: "t1", change: "created", changed_at: "2025-08-26T00:00:00.000Z" },
+      { task_id: "t2", change: "created", changed_at: "2025-08-26T00:00:00.000Z" },
+    ]);
+    db.close();
+  });
+
+  test("moves each account's tasks and tags onto a board of its own", () => {
+    const db = createBaselineDatabase();
+    migrate(db, MIGRATIONS.filter(migration => migration.version < 13));
+
+    const now = "2025-09-01T00:00:00.000Z";
+    db.query(`
+      INSERT INTO users (id, email, name, password_hash, created_at) VALUES ('u1', 'ada@example.com', 'Ada', '', $now)
+    `).run({ $now: now });
+    db.exec("UPDATE tasks SET user_id = 'u1' WHERE id = 't1'");
+    db.query(`
+      INSERT INTO tags (id, user_id, name, color, created_at, updated_at) VALUES ('g1', 'u1', 'work', '#3b82f6', $now, $now)
+    `).run({ $now: now });
+    migrate(db);
+
+    const board = db.query("SELECT id, name FROM boards").get() as { id: string; name: string };
+    expect(board.name).toBe("Ada's board");
+    expect(db.query("SELECT board_id, user_id, role FROM board_members").all())
+      .toEqual([{ board_id: board.id, user_id: "u1", role: "owner" }]);
+    expect(db.query("SELECT id, board_id FROM tasks ORDER BY id").all())
+      .toEqual([{ id: "t1", board_id: board.id }, { id: "t2", board_id: null }]);
+    expect(db.query("SELECT id, board_id FROM tags").all()).toEqual([{ id: "g1", board_id: board.id }]);
+    db.close();
+  });
+
+  test("backs up the database before a destructive step", () => {
+    const db = createBaselineDatabase();
+    const { backup } = migrate(db);
+    db.close();
+
+    expect(backup).not.toBeNull();
+    expect(existsSync(backup!)).toBe(true);
+
+    const copy = new Database(backup!, { readonly: true });
+    expect(getSchemaVersion(copy)).toBe(0);
+    expect(copy.query("SELECT day FROM tasks WHERE id = 't1'").get()).toEqual({ day: "monday" });
+    copy.close();
+  });
+
+  test("does nothing on an up-to-date database", () => {
+    const db = createBaselineDatabase();
+    migrate(db);
+
+    expect(migrate(db)).toEqual({ from: LATEST, to: LATEST, backup: null });
+    db.close();
+  });
+
+  test("upgrades the committed todos.db", () => {
+    // Copy it with its WAL so the original file is never opened
+    for (const suffix of ["", "-wal", "-shm"]) {
+      const source = join(import.meta.dir, "..", `todos.db${suffix}`);
+      if (existsSync(source)) {
+        copyFileSync(source, join(dir, `todos.db${suffix}`));
+      }
+    }
+
+    const db = new Database(join(dir, "todos.db"));
+    const before = db.query("SELECT COUNT(*) AS count FROM tasks").get();
+    migrate(db);
+
+    expect(getSchemaVersion(db)).toBe(LATEST);
+    expect(db.query("SELECT COUNT(*) AS count FROM tasks").get()).toEqual(before);
+    expect(db.query("SELECT COUNT(*) AS count FROM tasks_fts").get()).toEqual(before);
+    db.close();
+  });
+
+  test("refuses a database newer than the code", () => {
+    const db = new Database(join(dir, "todos.db"));
+    db.exec(`PRAGMA user_version = ${LATEST + 1}`);
+
+    expect(() => migrate(db)).toThrow(/newer than this app supports/);
+    expect(tableNames(db)).toEqual([]);
+    db.close();
+  });
+
+  test("rolls back every pending migration when one fails", () => {
+    const db = new Database(join(dir, "todos.db"));
+    const migrations: Migration[] = [
+      { version: 1, description: "Create a table", up: db => db.exec("CREATE TABLE notes (id TEXT)") },
+      { version: 2, description: "Fail", up: () => { throw new Error("boom"); } },
+    ];
+
+    expect(() => migrate(db, migrations)).toThrow("boom");
+    expect(getSchemaVersion(db)).toBe(0);
+    expect(tableNames(db)).toEqual([]);
+    db.close();
+  });
+});
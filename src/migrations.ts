@@ -0,0 +1,530 @@
+/**
+ * Versioned schema migrations for the SQLite database. The version a file is
+ * at is kept in `PRAGMA user_version`; pending migrations run in order, in a
+ * single transaction, when the database is opened.
+ *
+ * Databases from before versioning are at version 0 but may already have some
+ * of these changes, so the early migrations check before they add anything.
+ * New migrations only ever go at the end of the list.
+ */
+import type { Database } from "bun:sqlite";
+import { WEEKDAYS, startOfWeek, today, weekDates } from "./dates";
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Rewrites or removes existing data, so the file is backed up first
+  destructive?: boolean;
+  up: (db: Database) => void;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  backup: string | null; // path of the copy made before a destructive step
+}
+
+// Returns true when the column had to be added
+function addColumnIfMissing(db: Database, table: string, column: string, definition: string): boolean {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some(c => c.name === column)) {
+    return false;
+  }
+
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+  return true;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create tasks and pomodoro sessions",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          description TEXT,
+          day TEXT NOT NULL,
+          priority INTEGER NOT NULL DEFAULT 1,
+          completed BOOLEAN NOT NULL DEFAULT FALSE,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pomodoro_sessions (
+          id TEXT PRIMARY KEY,
+          task_id TEXT,
+          duration INTEGER NOT NULL,
+          started_at TEXT NOT NULL,
+          completed_at TEXT,
+          type TEXT NOT NULL,
+          FOREIGN KEY (task_id) REFERENCES tasks (id) ON DELETE SET NULL
+        );
+      `);
+
+      db.exec("CREATE INDEX IF NOT EXISTS idx_tasks_day ON tasks (day);");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks (priority);");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_pomodoro_task ON pomodoro_sessions (task_id);");
+    },
+  },
+  {
+    version: 2,
+    description: "Store timer preferences and the running timer",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS timer_preferences (
+          id TEXT PRIMARY KEY,
+          work_duration INTEGER NOT NULL,
+          short_break_duration INTEGER NOT NULL,
+          long_break_duration INTEGER NOT NULL,
+          sessions_until_long_break INTEGER NOT NULL,
+          auto_start_breaks BOOLEAN NOT NULL DEFAULT FALSE,
+          auto_start_pomodoros BOOLEAN NOT NULL DEFAULT FALSE,
+          notifications_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS timer_state (
+          id TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          type TEXT NOT NULL,
+          session_id TEXT,
+          task_id TEXT,
+          duration INTEGER NOT NULL,
+          started_at TEXT,
+          paused_at TEXT,
+          paused_seconds REAL NOT NULL DEFAULT 0,
+          session_count INTEGER NOT NULL DEFAULT 0,
+          updated_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: "Record session outcomes and pauses",
+    up(db) {
+      if (addColumnIfMissing(db, "pomodoro_sessions", "outcome", "TEXT")) {
+        addColumnIfMissing(db, "pomodoro_sessions", "abandoned_at", "TEXT");
+        addColumnIfMissing(db, "pomodoro_sessions", "interruption_reason", "TEXT");
+        addColumnIfMissing(db, "pomodoro_sessions", "focused_seconds", "INTEGER");
+
+        // Pauses were never recorded, so the planned duration is the best we know.
+        // Sessions that never completed were left behind by a reset, except the
+        // one the timer may still be running.
+        db.exec(`
+          UPDATE pomodoro_sessions SET outcome = 'completed', focused_seconds = duration
+          WHERE completed_at IS NOT NULL;
+        `);
+        db.exec(`
+          UPDATE pomodoro_sessions SET outcome = 'abandoned', abandoned_at = started_at
+          WHERE completed_at IS NULL
+            AND id NOT IN (SELECT session_id FROM timer_state WHERE session_id IS NOT NULL);
+        `);
+      }
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pomodoro_pauses (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          paused_at TEXT NOT NULL,
+          resumed_at TEXT,
+          FOREIGN KEY (session_id) REFERENCES pomodoro_sessions (id) ON DELETE CASCADE
+        );
+      `);
+
+      db.exec("CREATE INDEX IF NOT EXISTS idx_pomodoro_started ON pomodoro_sessions (started_at);");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_pomodoro_pauses_session ON pomodoro_pauses (session_id);");
+    },
+  },
+  {
+    version: 4,
+    description: "Key tasks by calendar date instead of weekday",
+    destructive: true,
+    up(db) {
+      // The weekday names carry no week, so place those tasks on the current one
+      const currentWeek = weekDates(startOfWeek(today()));
+      const migrateWeekday = db.query("UPDATE tasks SET day = $date WHERE day = $weekday");
+      WEEKDAYS.forEach((weekday, index) => {
+        migrateWeekday.run({ $date: currentWeek[index]!, $weekday: weekday });
+      });
+    },
+  },
+  {
+    version: 5,
+    description: "Add recurring task series",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_series (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          description TEXT,
+          rule TEXT NOT NULL,
+          start_date TEXT NOT NULL,
+          generated_until TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      addColumnIfMissing(db, "tasks", "series_id", "TEXT");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_tasks_series ON tasks (series_id, day);");
+    },
+  },
+  {
+    version: 6,
+    description: "Add subtasks",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS subtasks (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          completed BOOLEAN NOT NULL DEFAULT FALSE,
+          position INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (task_id) REFERENCES tasks (id) ON DELETE CASCADE
+        );
+      `);
+
+      addColumnIfMissing(db, "tasks", "auto_complete_subtasks", "BOOLEAN NOT NULL DEFAULT FALSE");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_subtasks_task ON subtasks (task_id, position);");
+    },
+  },
+  {
+    version: 7,
+    description: "Add tags",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tags (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          color TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_tags (
+          task_id TEXT NOT NULL,
+          tag_id TEXT NOT NULL,
+          PRIMARY KEY (task_id, tag_id),
+          FOREIGN KEY (task_id) REFERENCES tasks (id) ON DELETE CASCADE,
+          FOREIGN KEY (tag_id) REFERENCES tags (id) ON DELETE CASCADE
+        );
+      `);
+
+      db.exec("CREATE INDEX IF NOT EXISTS idx_task_tags_tag ON task_tags (tag_id);");
+    },
+  },
+  {
+    version: 8,
+    description: "Index task titles and descriptions for search",
+    up(db) {
+      // Kept in sync by the task methods rather than triggers
+      const hasSearchIndex = db.query("SELECT 1 FROM sqlite_master WHERE name = 'tasks_fts'").get();
+      if (hasSearchIndex) {
+        return;
+      }
+
+      db.exec(`
+        CREATE VIRTUAL TABLE tasks_fts USING fts5(
+          task_id UNINDEXED,
+          title,
+          description,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+      `);
+      db.exec(`
+        INSERT INTO tasks_fts (task_id, title, description)
+        SELECT id, title, COALESCE(description, '') FROM tasks;
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: "Add the activity log",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS activity_log (
+          id TEXT PRIMARY KEY,
+          action TEXT NOT NULL,
+          task_id TEXT,
+          before TEXT NOT NULL,
+          after TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          undone_at TEXT
+        );
+      `);
+
+      db.exec("CREATE INDEX IF NOT EXISTS idx_activity_created ON activity_log (created_at);");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_activity_task ON activity_log (task_id);");
+    },
+  },
+  {
+    version: 10,
+    description: "Keep deleted tasks in a trash",
+    up(db) {
+      addColumnIfMissing(db, "tasks", "deleted_at", "TEXT");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_tasks_deleted ON tasks (deleted_at);");
+    },
+  },
+  {
+    version: 11,
+    description: "Record the history of each task's fields",
+    up(db) {
+      const hasHistory = db.query("SELECT 1 FROM sqlite_master WHERE name = 'task_history'").get();
+      if (hasHistory) {
+        return;
+      }
+
+      db.exec(`
+        CREATE TABLE task_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_id TEXT NOT NULL,
+          change TEXT NOT NULL,
+          old_value TEXT,
+          new_value TEXT,
+          changed_at TEXT NOT NULL,
+          FOREIGN KEY (task_id) REFERENCES tasks (id) ON DELETE CASCADE
+        );
+      `);
+      db.exec("CREATE INDEX idx_task_history_task ON task_history (task_id, changed_at);");
+
+      // Earlier edits weren't kept, but every task's creation is known
+      db.exec(`
+        INSERT INTO task_history (task_id, change, old_value, new_value, changed_at)
+        SELECT id, 'created', NULL, NULL, created_at FROM tasks;
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: "Add user accounts and give each user their own data",
+    // Rebuilds the tags table
+    destructive: true,
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          name TEXT NOT NULL,
+          password_hash TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+      `);
+
+      // Keyed by a hash of the token in the cookie, never the token itself
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        );
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (user_id);");
+
+      // Existing rows stay unowned until the first account is registered and
+      // takes them over. Timer preferences and state are keyed by user id.
+      for (const table of ["tasks", "pomodoro_sessions", "task_series", "activity_log"]) {
+        addColumnIfMissing(db, table, "user_id", "TEXT");
+      }
+      db.exec("CREATE INDEX IF NOT EXISTS idx_tasks_user_day ON tasks (user_id, day);");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_pomodoro_user ON pomodoro_sessions (user_id, started_at);");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_task_series_user ON task_series (user_id);");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_activity_user ON activity_log (user_id, created_at);");
+
+      // Tag names were unique across the app; now they only are per user
+      db.exec(`
+        CREATE TABLE tags_new (
+          id TEXT PRIMARY KEY,
+          user_id TEXT,
+          name TEXT NOT NULL COLLATE NOCASE,
+          color TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          UNIQUE (user_id, name)
+        );
+      `);
+      db.exec(`
+        INSERT INTO tags_new (id, user_id, name, color, created_at, updated_at)
+        SELECT id, NULL, name, color, created_at, updated_at FROM tags;
+      `);
+      db.exec("DROP TABLE tags;");
+      db.exec("ALTER TABLE tags_new RENAME TO tags;");
+    },
+  },
+  {
+    version: 13,
+    description: "Add shared boards with members and invites",
+    // Rebuilds the tags table
+    destructive: true,
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS boards (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS board_members (
+          board_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          joined_at TEXT NOT NULL,
+          PRIMARY KEY (board_id, user_id),
+          FOREIGN KEY (board_id) REFERENCES boards (id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        );
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS idx_board_members_user ON board_members (user_id);");
+
+      // The id is the token in the invite link
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS board_invites (
+          id TEXT PRIMARY KEY,
+          board_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          created_by TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          FOREIGN KEY (board_id) REFERENCES boards (id) ON DELETE CASCADE
+        );
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS idx_board_invites_board ON board_invites (board_id);");
+
+      // Tasks, series and the log now belong to a board; their user_id says who
+      // created them. Tags only belong to a board, so their table is rebuilt.
+      for (const table of ["tasks", "task_series", "activity_log"]) {
+        addColumnIfMissing(db, table, "board_id", "TEXT");
+      }
+      db.exec("CREATE INDEX IF NOT EXISTS idx_tasks_board_day ON tasks (board_id, day);");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_task_series_board ON task_series (board_id);");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_activity_board ON activity_log (board_id, created_at);");
+
+      db.exec(`
+        CREATE TABLE tags_new (
+          id TEXT PRIMARY KEY,
+          board_id TEXT,
+          name TEXT NOT NULL COLLATE NOCASE,
+          color TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          UNIQUE (board_id, name)
+        );
+      `);
+
+      // Everyone's data moves onto a board of their own
+      const now = new Date().toISOString();
+      const users = db.query("SELECT id, name FROM users ORDER BY created_at").all() as { id: string; name: string }[];
+      for (const user of users) {
+        const params = { $board_id: crypto.randomUUID(), $user_id: user.id, $now: now };
+        db.query("INSERT INTO boards (id, name, created_at, updated_at) VALUES ($board_id, $name, $now, $now)")
+          .run({ ...params, $name: `${user.name}'s board` });
+        db.query(`
+          INSERT INTO board_members (board_id, user_id, role, joined_at) VALUES ($board_id, $user_id, 'owner', $now)
+        `).run(params);
+        for (const table of ["tasks", "task_series", "activity_log"]) {
+          db.query(`UPDATE ${table} SET board_id = $board_id WHERE user_id = $user_id`)
+            .run({ $board_id: params.$board_id, $user_id: user.id });
+        }
+        db.query(`
+          INSERT INTO tags_new (id, board_id, name, color, created_at, updated_at)
+          SELECT id, $board_id, name, color, created_at, updated_at FROM tags WHERE user_id = $user_id
+        `).run({ $board_id: params.$board_id, $user_id: user.id });
+      }
+
+      // Tags nobody owns yet wait for the first account, like the rest
+      db.exec(`
+        INSERT INTO tags_new (id, board_id, name, color, created_at, updated_at)
+        SELECT id, NULL, name, color, created_at, updated_at FROM tags WHERE user_id IS NULL;
+      `);
+      db.exec("DROP TABLE tags;");
+      db.exec("ALTER TABLE tags_new RENAME TO tags;");
+    },
+  },
+  {
+    version: 14,
+    description: "Add task assignees",
+    up(db) {
+      addColumnIfMissing(db, "tasks", "assignee_id", "TEXT");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_tasks_board_assignee ON tasks (board_id, assignee_id);");
+    },
+  },
+  {
+    version: 15,
+    description: "Add task versions",
+    up(db) {
+      addColumnIfMissing(db, "tasks", "version", "INTEGER NOT NULL DEFAULT 1");
+    },
+  },
+];
+
+export function getSchemaVersion(db: Database): number {
+  const row = db.query("PRAGMA user_version").get() as { user_version: number };
+  return row.user_version;
+}
+
+// Copies the database next to itself, e.g. todos.db.v3-2026-10-19T12-00-00-000Z.bak
+function backupDatabase(db: Database, version: number): string | null {
+  // In-memory databases have nothing on disk to lose
+  if (!db.filename || db.filename === ":memory:") {
+    return null;
+  }
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const path = `${db.filename}.v${version}-${stamp}.bak`;
+  db.query("VACUUM INTO $path").run({ $path: path });
+  return path;
+}
+
+/**
+ * Brings the database up to the latest version. Throws when the file was
+ * written by a newer version of the app, since running against a schema this
+ * code doesn't know could lose data; a failed migration rolls back entirely.
+ */
+export function migrate(db: Database, migrations: Migration[] = MIGRATIONS): MigrationResult {
+  const from = getSchemaVersion(db);
+  const latest = migrations.at(-1)?.version ?? 0;
+
+  if (from > latest) {
+    throw new Error(
+      `Database schema version ${from} is newer than this app supports (${latest}). ` +
+      `Upgrade the app or restore a backup made by this version.`
+    );
+  }
+
+  const pending = migrations.filter(migration => migration.version > from);
+  if (pending.length === 0) {
+    return { from, to: from, backup: null };
+  }
+
+  // A file without tables is new, so there is nothing to back up
+  const hasTables = db.query("SELECT 1 FROM sqlite_master WHERE type = 'table'").get();
+  const backup = hasTables && pending.some(migration => migration.destructive)
+    ? backupDatabase(db, from)
+    : null;
+
+  const transaction = db.transaction(() => {
+    for (const migration of pending) {
+      migration.up(db);
+      // PRAGMA doesn't take bound parameters; version is always a number
+      db.exec(`PRAGMA user_version = ${migration.version}`);
+    }
+  });
+  transaction();
+
+  return { from, to: latest, backup };
+}
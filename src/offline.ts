@@ -0,0 +1,214 @@
+/**
+ * The frontend's offline store. Each board's last known tasks are kept in
+ * IndexedDB so the board still opens without a connection, and task changes
+ * made meanwhile wait in a queue that is replayed, in order, once the server
+ * can be reached again.
+ *
+ * Conflicts are settled when a change is replayed:
+ * - edits overwrite whatever the task holds by then (the last write wins),
+ *   except a title or description edit made on text that has since changed,
+ *   which comes back as a conflict for the user to merge;
+ * - a change to a task that no longer exists, say one another device moved
+ *   to the trash, is dropped, as is any other change the server refuses;
+ * - new tasks carry an id made here, so a create sent twice makes one task.
+ * After a replay the board is fetched again, which undoes dropped changes.
+ * A replay turned away because the session has ended keeps the whole queue
+ * for after the user signs in again.
+ */
+import type { BoardMember, BoardSummary, Subtask, Tag, Task, TaskSeries } from "./database";
+
+// Everything a board needs to render, as last seen
+export interface BoardSnapshot {
+  boardId: string;
+  board: BoardSummary;
+  members: BoardMember[];
+  tasks: Task[];
+  subtasks: Subtask[];
+  series: TaskSeries[];
+  tags: Tag[];
+  saved_at: string;
+}
+
+export interface MutationRequest {
+  mutationId: string; // echoed on the events the change causes
+  method: 'POST' | 'PUT' | 'DELETE';
+  path: string;
+  body?: unknown;
+  taskId: string; // the task it changes, for the pending-sync marker
+  label: string; // e.g. "edit", for messages about it
+  // The text an edit carrying a version was made on, so a replay can tell
+  // someone else's change from an earlier one of ours
+  base?: Pick<Task, 'title' | 'description'>;
+}
+
+export interface QueuedMutation extends MutationRequest {
+  seq: number; // replay order
+  boardId: string;
+  queued_at: string;
+}
+
+// A queued change the server refused, and why
+export interface DiscardedMutation {
+  mutation: QueuedMutation;
+  reason: string;
+}
+
+// A queued edit refused because someone else changed the text meanwhile
+export interface ConflictedMutation {
+  mutation: QueuedMutation;
+  current: Task; // the server's copy
+}
+
+export interface ReplayResult {
+  sent: number;
+  discarded: DiscardedMutation[];
+  conflicts: ConflictedMutation[];
+  remaining: number; // left queued because the server still can't be reached
+  signedOut: boolean; // stopped because the session has ended
+}
+
+const DB_NAME = "weekly-todo";
+const DB_VERSION = 1;
+const SNAPSHOTS = "snapshots";
+const MUTATIONS = "mutations";
+
+let opening: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  opening ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(SNAPSHOTS, { keyPath: "boardId" });
+      const mutations = db.createObjectStore(MUTATIONS, { keyPath: "seq", autoIncrement: true });
+      mutations.createIndex("boardId", "boardId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      opening = null;
+      reject(request.error);
+    };
+  });
+  return opening;
+}
+
+// Runs one request in its own transaction and resolves once that has committed
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function loadSnapshot(boardId: string): Promise<BoardSnapshot | null> {
+  const snapshot = await run(SNAPSHOTS, "readonly", store => store.get(boardId));
+  return (snapshot as BoardSnapshot | undefined) ?? null;
+}
+
+export async function saveSnapshot(snapshot: BoardSnapshot): Promise<void> {
+  await run(SNAPSHOTS, "readwrite", store => store.put(snapshot));
+}
+
+export async function queueMutation(boardId: string, request: MutationRequest): Promise<QueuedMutation> {
+  const entry = { ...request, boardId, queued_at: new Date().toISOString() };
+  const seq = await run(MUTATIONS, "readwrite", store => store.add(entry));
+  return { ...entry, seq: seq as number };
+}
+
+// A board's queued changes, oldest first
+export async function listMutations(boardId: string): Promise<QueuedMutation[]> {
+  const mutations = await run(MUTATIONS, "readonly", store => store.index("boardId").getAll(boardId));
+  return (mutations as QueuedMutation[]).sort((a, b) => a.seq - b.seq);
+}
+
+async function removeMutation(seq: number): Promise<void> {
+  await run(MUTATIONS, "readwrite", store => store.delete(seq));
+}
+
+// Sends a request, resolving to null when the server can't be reached; a
+// response, even an error one, means it was
+export async function send({ mutationId, method, path, body }: MutationRequest) {
+  try {
+    return await fetch(path, {
+      method,
+      headers: {
+        'X-Mutation-Id': mutationId,
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+  } catch (error) {
+    // fetch only throws a TypeError when the request never got an answer
+    if (error instanceof TypeError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Replays a board's queued changes in order. It stops at the first one that
+ * can't be delivered, that fails on the server's side or that finds the user
+ * signed out, so later changes never overtake it. Stale edits come back as
+ * conflicts, and other changes the server refuses are dropped (see above).
+ */
+export async function replayMutations(boardId: string): Promise<ReplayResult> {
+  const queued = await listMutations(boardId);
+  const result: ReplayResult = {
+    sent: 0,
+    discarded: [],
+    conflicts: [],
+    remaining: queued.length,
+    signedOut: false,
+  };
+
+  for (const mutation of queued) {
+    let response = await send(mutation);
+
+    // Stale, but its text is as it was, e.g. after an earlier change of ours:
+    // it goes on top of the newer copy
+    const stale = response?.status === 409 ? await response.clone().json().catch(() => ({})) : null;
+    if (stale?.task && mutation.base && sameText(stale.task, mutation.base)) {
+      response = await send({ ...mutation, body: { ...(mutation.body as object), version: stale.task.version } });
+    }
+
+    if (!response || response.status >= 500 || response.status === 401) {
+      result.signedOut = response?.status === 401;
+      break;
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      if (response.status === 409 && data.task) {
+        result.conflicts.push({ mutation, current: data.task });
+      } else {
+        const reason = response.status === 404
+          ? "the task was deleted elsewhere"
+          : data.error ?? `the server answered ${response.status}`;
+        result.discarded.push({ mutation, reason });
+      }
+    } else {
+      result.sent++;
+    }
+
+    await removeMutation(mutation.seq);
+    result.remaining--;
+  }
+
+  return result;
+}
+
+const sameText = (a: Pick<Task, 'title' | 'description'>, b: Pick<Task, 'title' | 'description'>) =>
+  a.title === b.title && (a.description ?? null) === (b.description ?? null);
+
+// Forgets every board and queued change, e.g. when someone logs out
+export async function clearOfflineData(): Promise<void> {
+  await run(SNAPSHOTS, "readwrite", store => store.clear());
+  await run(MUTATIONS, "readwrite", store => store.clear());
+}
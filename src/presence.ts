@@ -0,0 +1,26 @@
+/**
+ * Who has a board open, one entry per socket: the server sends the whole list
+ * to the board whenever it changes, and drops an entry when its socket closes.
+ * Nothing here is stored or numbered like board events; it's only as good as
+ * the open connections.
+ */
+export interface Presence {
+  socketId: string;
+  userId: string;
+  name: string;
+  day: string | null; // the day on screen, null outside the week view
+  // Held while the title or description is being edited inline; other
+  // clients show it as a soft lock
+  editingTaskId: string | null;
+}
+
+// The people on `day`, each once however many tabs they have open
+export const viewersOf = (presence: Presence[], day: string) =>
+  uniqueUsers(presence.filter(entry => entry.day === day));
+
+// The people editing a task
+export const editorsOf = (presence: Presence[], taskId: string) =>
+  uniqueUsers(presence.filter(entry => entry.editingTaskId === taskId));
+
+const uniqueUsers = (entries: Presence[]) =>
+  entries.filter((entry, index) => entries.findIndex(other => other.userId === entry.userId) === index);
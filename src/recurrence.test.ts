@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { expandRecurrence, type RecurrenceRule } from "./recurrence";
+
+// 2026-10-19 is a Monday
+describe("expandRecurrence", () => {
+  test("moves a monthly day to the end of shorter months", () => {
+    const rule: RecurrenceRule = { frequency: "monthly", interval: 1, month_day: 31 };
+    expect(expandRecurrence(rule, "2026-01-31", "2026-01-01", "2026-05-31")).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+      "2026-04-30",
+      "2026-05-31",
+    ]);
+  });
+
+  test("repeats several weekdays every other week", () => {
+    const rule: RecurrenceRule = { frequency: "weekly", interval: 2, weekdays: [0, 3] };
+    expect(expandRecurrence(rule, "2026-10-19", "2026-10-19", "2026-11-15")).toEqual([
+      "2026-10-19",
+      "2026-10-22",
+      "2026-11-02",
+      "2026-11-05",
+    ]);
+  });
+
+  test("skips the weekdays before a start in the middle of the week", () => {
+    const rule: RecurrenceRule = { frequency: "weekly", interval: 2, weekdays: [0, 3, 5] };
+    expect(expandRecurrence(rule, "2026-10-21", "2026-10-19", "2026-11-08")).toEqual([
+      "2026-10-22",
+      "2026-10-24",
+      "2026-11-02",
+      "2026-11-05",
+      "2026-11-07",
+    ]);
+  });
+
+  test("ends on the until date, inclusive", () => {
+    const rule: RecurrenceRule = { frequency: "daily", interval: 1, until: "2026-10-21" };
+    expect(expandRecurrence(rule, "2026-10-19", "2026-10-19", "2026-10-31")).toEqual([
+      "2026-10-19",
+      "2026-10-20",
+      "2026-10-21",
+    ]);
+  });
+
+  test("counts occurrences from the start, not from the range asked for", () => {
+    const rule: RecurrenceRule = { frequency: "daily", interval: 2, count: 3 };
+    expect(expandRecurrence(rule, "2026-10-19", "2026-10-20", "2026-10-31")).toEqual([
+      "2026-10-21",
+      "2026-10-23",
+    ]);
+  });
+});
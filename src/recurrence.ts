@@ -0,0 +1,158 @@
+/**
+ * Recurrence rules for repeating tasks, modelled on the parts of RFC 5545's
+ * RRULE the app needs. Shared by the server, which expands rules into task
+ * occurrences, and the frontend, which edits and describes them.
+ */
+import { addDays, isISODate, parseISODate, startOfWeek, toISODate } from "./dates";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days, weeks or months
+  weekdays?: number[]; // weekly only: 0 = Monday … 6 = Sunday; defaults to the start date's weekday
+  month_day?: number; // monthly only: 1–31, moved to the last day in shorter months
+  until?: string | null; // ISO date, inclusive
+  count?: number | null; // total number of occurrences
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ["daily", "weekly", "monthly"];
+const SHORT_WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+// Returns a normalized copy of the rule, or an error message
+export function parseRecurrenceRule(value: unknown): RecurrenceRule | string {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "recurrence must be an object";
+  }
+
+  const input = value as Record<string, unknown>;
+  const rule: RecurrenceRule = {
+    frequency: input.frequency as RecurrenceFrequency,
+    interval: input.interval === undefined ? 1 : (input.interval as number),
+  };
+
+  if (!FREQUENCIES.includes(rule.frequency)) {
+    return `recurrence.frequency must be one of ${FREQUENCIES.join(", ")}`;
+  }
+
+  if (!isWholeNumber(rule.interval, 1, 365)) {
+    return "recurrence.interval must be a whole number between 1 and 365";
+  }
+
+  if (input.weekdays !== undefined) {
+    if (
+      rule.frequency !== "weekly" ||
+      !Array.isArray(input.weekdays) ||
+      input.weekdays.length === 0 ||
+      !input.weekdays.every(day => isWholeNumber(day, 0, 6))
+    ) {
+      return "recurrence.weekdays must be a non-empty list of weekdays (0 = Monday) on a weekly rule";
+    }
+    rule.weekdays = [...new Set(input.weekdays as number[])].sort();
+  }
+
+  if (input.month_day !== undefined) {
+    if (rule.frequency !== "monthly" || !isWholeNumber(input.month_day, 1, 31)) {
+      return "recurrence.month_day must be a day between 1 and 31 on a monthly rule";
+    }
+    rule.month_day = input.month_day;
+  }
+
+  if (input.until !== undefined && input.until !== null) {
+    if (!isISODate(input.until)) {
+      return "recurrence.until must be a date in YYYY-MM-DD format";
+    }
+    rule.until = input.until;
+  }
+
+  if (input.count !== undefined && input.count !== null) {
+    if (!isWholeNumber(input.count, 1, 1000)) {
+      return "recurrence.count must be a whole number between 1 and 1000";
+    }
+    rule.count = input.count;
+  }
+
+  if (rule.until && rule.count) {
+    return "recurrence can end on a date or after a count, not both";
+  }
+
+  return rule;
+}
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Candidate dates in order, starting at `start`, without end conditions applied
+function* candidates(rule: RecurrenceRule, start: string): Generator<string> {
+  const startDate = parseISODate(start);
+
+  switch (rule.frequency) {
+    case "daily":
+      for (let day = start; ; day = addDays(day, rule.interval)) {
+        yield day;
+      }
+    case "weekly": {
+      const weekdays = rule.weekdays ?? [(startDate.getDay() + 6) % 7];
+      for (let week = startOfWeek(start); ; week = addDays(week, 7 * rule.interval)) {
+        for (const weekday of weekdays) {
+          const day = addDays(week, weekday);
+          if (day >= start) yield day;
+        }
+      }
+    }
+    case "monthly": {
+      const monthDay = rule.month_day ?? startDate.getDate();
+      for (let offset = 0; ; offset += rule.interval) {
+        const year = startDate.getFullYear();
+        const month = startDate.getMonth() + offset;
+        const first = new Date(year, month, 1);
+        const date = Math.min(monthDay, daysInMonth(first.getFullYear(), first.getMonth()));
+        const day = toISODate(new Date(first.getFullYear(), first.getMonth(), date));
+        if (day >= start) yield day;
+      }
+    }
+  }
+}
+
+// Occurrence dates of a series that started on `start`, between `from` and `to` inclusive
+export function expandRecurrence(rule: RecurrenceRule, start: string, from: string, to: string): string[] {
+  const dates: string[] = [];
+  let count = 0;
+
+  for (const day of candidates(rule, start)) {
+    if (day > to || (rule.until && day > rule.until)) break;
+    if (rule.count && count >= rule.count) break;
+
+    count++;
+    if (day >= from) {
+      dates.push(day);
+    }
+  }
+
+  return dates;
+}
+
+// Short human-readable summary, e.g. "Every 2 weeks on Mon, Thu"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[rule.frequency];
+  let text = rule.interval === 1
+    ? { daily: "Daily", weekly: "Weekly", monthly: "Monthly" }[rule.frequency]
+    : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.weekdays) {
+    text += ` on ${rule.weekdays.map(day => SHORT_WEEKDAYS[day]).join(", ")}`;
+  }
+  if (rule.month_day) {
+    text += ` on day ${rule.month_day}`;
+  }
+  if (rule.until) {
+    text += ` until ${rule.until}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+
+  return text;
+}
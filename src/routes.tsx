@@ -1,16 +1,47 @@
 import { useRoutes, type RouteObject } from "react-router";
 import { App } from "./App";
 import { About } from "./About";
+import { BoardSettings } from "./BoardSettings";
+import { Invite } from "./Invite";
+import { Login } from "./Login";
+import { Stats } from "./Stats";
+import { Trash } from "./Trash";
+import { BoardIndex, RequireBoard } from "./components/RequireBoard";
+import { RequireUser } from "./components/RequireUser";
 
 const routes: RouteObject[] = [
   {
     path: "/",
-    element: <App />,
+    element: <RequireUser><BoardIndex /></RequireUser>,
+  },
+  {
+    path: "/boards/:boardId",
+    element: <RequireUser><RequireBoard><App /></RequireBoard></RequireUser>,
+  },
+  {
+    path: "/boards/:boardId/settings",
+    element: <RequireUser><RequireBoard><BoardSettings /></RequireBoard></RequireUser>,
+  },
+  {
+    path: "/boards/:boardId/trash",
+    element: <RequireUser><RequireBoard><Trash /></RequireBoard></RequireUser>,
+  },
+  {
+    path: "/invite/:token",
+    element: <RequireUser><Invite /></RequireUser>,
   },
   {
     path: "/about",
     element: <About />,
   },
+  {
+    path: "/login",
+    element: <Login />,
+  },
+  {
+    path: "/stats",
+    element: <RequireUser><Stats /></RequireUser>,
+  },
 ];
 
 export function Routes() {
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { tagCreateSchema, tagUpdateSchema, taskBatchSchema, taskCreateSchema } from "./schemas";
+
+describe("tag schemas", () => {
+  test("accept a valid color", () => {
+    expect(tagCreateSchema.parse({ name: "Work", color: "#3B82F6" })).toEqual({
+      ok: true,
+      value: { name: "Work", color: "#3b82f6" },
+    });
+    expect(tagUpdateSchema.parse({ color: "#10b981" })).toEqual({ ok: true, value: { color: "#10b981" } });
+  });
+
+  test("refuse an invalid one", () => {
+    expect(tagCreateSchema.parse({ name: "Work", color: "blue" })).toEqual({
+      ok: false,
+      errors: [{ path: "color", message: "must be a hex color like #3b82f6" }],
+    });
+  });
+});
+
+describe("task schemas", () => {
+  test("normalize a recurrence rule", () => {
+    const result = taskCreateSchema.parse({ title: "Run", day: "2026-10-19", recurrence: { frequency: "daily" } });
+    expect(result).toEqual({
+      ok: true,
+      value: { title: "Run", day: "2026-10-19", recurrence: { frequency: "daily", interval: 1 } },
+    });
+  });
+
+  test("report a bad rule at the field it's about", () => {
+    const result = taskCreateSchema.parse({ title: "Run", day: "2026-10-19", recurrence: { frequency: "daily", interval: 0 } });
+    expect(result).toEqual({
+      ok: false,
+      errors: [{ path: "recurrence.interval", message: "must be a whole number between 1 and 365" }],
+    });
+  });
+});
+
+describe("task batch schema", () => {
+  const deletes = (count: number) =>
+    ({ operations: Array.from({ length: count }, (_, i) => ({ op: "delete", id: `task-${i}` })) });
+
+  test("takes up to 200 operations", () => {
+    expect(taskBatchSchema.parse(deletes(200)).ok).toBe(true);
+    expect(taskBatchSchema.parse(deletes(201)).ok).toBe(false);
+  });
+});
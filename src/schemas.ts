@@ -0,0 +1,289 @@
+/**
+ * Request schemas for the API. The server validates every body, query string
+ * and WebSocket message against these; the frontend builds its requests from
+ * the inferred types.
+ */
+import type { BoardInvite, BoardRole, PomodoroSessionType, SeriesScope, TimerPreferencesUpdate } from "./database";
+import { parseRecurrenceRule } from "./recurrence";
+import {
+  array,
+  boolean,
+  custom,
+  email,
+  hexColor,
+  integer,
+  isoDate,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  string,
+  tagged,
+} from "./validation";
+import type { Infer, Schema } from "./validation";
+
+export const SESSION_TYPES = ["work", "short_break", "long_break"] as const satisfies readonly PomodoroSessionType[];
+export const SERIES_SCOPES = ["this", "future"] as const satisfies readonly SeriesScope[];
+export const TIMER_COMMANDS = ["start", "pause", "resume", "skip", "reset", "switch"] as const;
+// From least to most access
+export const BOARD_ROLES = ["viewer", "editor", "owner"] as const satisfies readonly BoardRole[];
+// Ownership is handed over from the members list, not through a link
+export const INVITE_ROLES = ["viewer", "editor"] as const satisfies readonly BoardInvite["role"][];
+
+// Whether `role` grants at least what `minimum` does
+export const hasRole = (role: BoardRole, minimum: BoardRole) =>
+  BOARD_ROLES.indexOf(role) >= BOARD_ROLES.indexOf(minimum);
+
+// Tasks are numbered 1..n within their day
+const MAX_PRIORITY = 1000;
+const MAX_REASON_LENGTH = 500;
+
+const id = string({ min: 1, max: 100 });
+const title = string({ min: 1, max: 200 });
+const description = nullable(string({ max: 5000 }));
+const tagIds = array(id, { max: 50 });
+const recurrence = nullable(custom(value => {
+  const rule = parseRecurrenceRule(value);
+  return typeof rule === "string" ? { error: rule } : { value: rule };
+}));
+const reason = nullable(string({ max: MAX_REASON_LENGTH }));
+const tagColor = hexColor();
+const boardName = string({ min: 1, max: 100 });
+
+// Accounts
+
+export const registerSchema = object({
+  email: email(),
+  name: string({ min: 1, max: 100 }),
+  // Passwords are taken exactly as typed
+  password: string({ min: 8, max: 200, trim: false }),
+});
+
+export const loginSchema = object({
+  email: email(),
+  password: string({ min: 1, max: 200, trim: false }),
+});
+
+export type Registration = Infer<typeof registerSchema>;
+export type Login = Infer<typeof loginSchema>;
+
+// Boards
+
+export const boardCreateSchema = object({
+  name: boardName,
+});
+
+export const boardUpdateSchema = object({
+  name: boardName,
+});
+
+export const memberUpdateSchema = object({
+  role: oneOf(BOARD_ROLES),
+});
+
+export const inviteCreateSchema = object({
+  role: oneOf(INVITE_ROLES),
+  // How long the link works for
+  days: optional(integer({ min: 1, max: 30 })),
+});
+
+export type BoardCreate = Infer<typeof boardCreateSchema>;
+export type InviteCreate = Infer<typeof inviteCreateSchema>;
+
+// Tasks
+
+export const taskQuerySchema = object({
+  day: optional(isoDate()),
+  from: optional(isoDate()),
+  to: optional(isoDate()),
+  tag: optional(id),
+  assignee: optional(id),
+}, { allowUnknown: true });
+
+export const taskCreateSchema = object({
+  // Made by the client, so a create replayed from its offline queue isn't doubled
+  id: optional(id),
+  title,
+  description: optional(description),
+  day: isoDate(),
+  recurrence: optional(recurrence),
+  tag_ids: optional(tagIds),
+  assignee_id: optional(nullable(id)),
+});
+
+export const taskUpdateSchema = object({
+  title: optional(title),
+  description: optional(description),
+  day: optional(isoDate()),
+  priority: optional(integer({ min: 1, max: MAX_PRIORITY })),
+  completed: optional(boolean()),
+  auto_complete_subtasks: optional(boolean()),
+  tag_ids: optional(tagIds),
+  // A member of the task's board; null unassigns it
+  assignee_id: optional(nullable(id)),
+  // A rule starts or changes the task's series; null ends it
+  recurrence: optional(recurrence),
+  // Whether title and description edits also go to later occurrences
+  scope: optional(oneOf(SERIES_SCOPES)),
+  // The version the edit was made on; a stale one is refused with a 409
+  version: optional(integer({ min: 1 })),
+});
+
+export const taskDeleteQuerySchema = object({
+  scope: optional(oneOf(SERIES_SCOPES)),
+}, { allowUnknown: true });
+
+export const taskMoveSchema = object({
+  day: isoDate(),
+  index: optional(integer({ min: 0 })),
+});
+
+export const taskReorderSchema = object({
+  day: isoDate(),
+  taskIds: array(id),
+});
+
+// Up to this many task changes go in one batch
+const MAX_BATCH_OPERATIONS = 200;
+
+export const taskBatchSchema = object({
+  operations: array(tagged("op", {
+    update: object({
+      op: oneOf(["update"]),
+      id,
+      changes: object({
+        completed: optional(boolean()),
+        assignee_id: optional(nullable(id)),
+      }),
+    }),
+    // To the end of the day
+    move: object({
+      op: oneOf(["move"]),
+      id,
+      day: isoDate(),
+    }),
+    delete: object({
+      op: oneOf(["delete"]),
+      id,
+    }),
+  }), { max: MAX_BATCH_OPERATIONS }),
+});
+
+export type TaskCreate = Infer<typeof taskCreateSchema>;
+export type TaskUpdate = Infer<typeof taskUpdateSchema>;
+export type TaskBatch = Infer<typeof taskBatchSchema>;
+
+// Subtasks
+
+export const subtaskCreateSchema = object({
+  title,
+});
+
+export const subtaskUpdateSchema = object({
+  title: optional(title),
+  completed: optional(boolean()),
+});
+
+export const subtaskReorderSchema = object({
+  subtaskIds: array(id),
+});
+
+export type SubtaskUpdate = Infer<typeof subtaskUpdateSchema>;
+
+// Tags
+
+export const tagCreateSchema = object({
+  name: string({ min: 1, max: 50 }),
+  color: tagColor,
+});
+
+export const tagUpdateSchema = object({
+  name: optional(string({ min: 1, max: 50 })),
+  color: optional(tagColor),
+});
+
+export type TagCreate = Infer<typeof tagCreateSchema>;
+export type TagUpdate = Infer<typeof tagUpdateSchema>;
+
+// Activity
+
+export const activityQuerySchema = object({
+  taskId: optional(id),
+  limit: optional(integer({ min: 1, max: 200, coerce: true })),
+}, { allowUnknown: true });
+
+// Search
+
+export const searchQuerySchema = object({
+  q: string({ max: 200 }),
+  limit: optional(integer({ min: 1, max: 50, coerce: true })),
+}, { allowUnknown: true });
+
+// Pomodoro
+
+export const sessionQuerySchema = object({
+  taskId: optional(id),
+}, { allowUnknown: true });
+
+export const sessionCreateSchema = object({
+  task_id: optional(nullable(id)),
+  duration: integer({ min: 1, max: 180 * 60 }),
+  type: oneOf(SESSION_TYPES),
+});
+
+export const sessionAbandonSchema = object({
+  reason: optional(reason),
+});
+
+export const timerCommandSchema = object({
+  task_id: optional(nullable(id)),
+  type: optional(oneOf(SESSION_TYPES)),
+  reason: optional(reason),
+});
+
+export const timerPreferencesSchema: Schema<TimerPreferencesUpdate> = object({
+  work_duration: optional(integer({ min: 1, max: 180 })),
+  short_break_duration: optional(integer({ min: 1, max: 180 })),
+  long_break_duration: optional(integer({ min: 1, max: 180 })),
+  sessions_until_long_break: optional(integer({ min: 1, max: 12 })),
+  auto_start_breaks: optional(boolean()),
+  auto_start_pomodoros: optional(boolean()),
+  notifications_enabled: optional(boolean()),
+});
+
+export const statsQuerySchema = object({
+  days: optional(integer({ min: 1, max: 366, coerce: true })),
+  // Minutes, as returned by Date.prototype.getTimezoneOffset
+  tzOffset: optional(integer({ min: -14 * 60, max: 14 * 60, coerce: true })),
+}, { allowUnknown: true });
+
+export type TimerCommand = (typeof TIMER_COMMANDS)[number];
+export type TimerCommandPayload = Infer<typeof timerCommandSchema>;
+
+// WebSocket messages from clients
+
+export const socketMessageSchema = tagged("type", {
+  timer_command: object({
+    type: oneOf(["timer_command"]),
+    command: oneOf(TIMER_COMMANDS),
+    payload: optional(timerCommandSchema),
+  }),
+  // A socket gets one board's task events at a time; subscribing again switches
+  subscribe: object({
+    type: oneOf(["subscribe"]),
+    boardId: id,
+    // The last event seen, when resubscribing after a dropped connection
+    since: optional(object({
+      epoch: id,
+      seq: integer({ min: 0 }),
+    })),
+  }),
+  // Where on the subscribed board the socket is, see Presence
+  presence: object({
+    type: oneOf(["presence"]),
+    day: nullable(isoDate()),
+    editingTaskId: nullable(id),
+  }),
+});
+
+export type SocketMessage = Infer<typeof socketMessageSchema>;
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { buildSearchQuery, HIGHLIGHT_END as END, HIGHLIGHT_START as START, splitHighlights } from "./search";
+
+describe("buildSearchQuery", () => {
+  test("matches the start of every word", () => {
+    expect(buildSearchQuery("  gro   eg ")).toBe('"gro"* "eg"*');
+  });
+
+  test("strips quotes so they can't break out of a term", () => {
+    expect(buildSearchQuery('say "hi" "')).toBe('"say"* "hi"*');
+  });
+
+  test("has nothing to search for in blank input", () => {
+    expect(buildSearchQuery("")).toBeNull();
+    expect(buildSearchQuery(" \t\n ")).toBeNull();
+    expect(buildSearchQuery('""')).toBeNull();
+  });
+});
+
+describe("splitHighlights", () => {
+  test("splits matches from the text around them", () => {
+    expect(splitHighlights(`Buy ${START}eggs${END} today`)).toEqual([
+      { text: "Buy ", match: false },
+      { text: "eggs", match: true },
+      { text: " today", match: false },
+    ]);
+  });
+
+  test("handles matches at the start and end of the text", () => {
+    expect(splitHighlights(`${START}Buy${END} some ${START}eggs${END}`)).toEqual([
+      { text: "Buy", match: true },
+      { text: " some ", match: false },
+      { text: "eggs", match: true },
+    ]);
+  });
+
+  test("leaves text without matches whole", () => {
+    expect(splitHighlights("Buy eggs")).toEqual([{ text: "Buy eggs", match: false }]);
+    expect(splitHighlights("")).toEqual([]);
+  });
+});
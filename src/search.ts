@@ -0,0 +1,44 @@
+/**
+ * Task search helpers shared by the server, which turns the user's input into
+ * an FTS5 query, and the frontend, which renders the highlighted matches.
+ */
+
+// Control characters can't appear in task text, so they can safely mark
+// matches without the server sending HTML
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+/**
+ * Builds an FTS5 query where every word must match the start of a word in the
+ * title or description, e.g. `gro eg` → `"gro"* "eg"*`. Returns null when the
+ * input has nothing to search for.
+ */
+export function buildSearchQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, ""))
+    .filter(Boolean);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map(term => `"${term}"*`).join(" ");
+}
+
+// Splits highlighted text into plain and matched parts, in order
+export function splitHighlights(text: string): { text: string; match: boolean }[] {
+  const parts: { text: string; match: boolean }[] = [];
+
+  for (const chunk of text.split(HIGHLIGHT_START)) {
+    const end = chunk.indexOf(HIGHLIGHT_END);
+    if (end === -1) {
+      if (chunk) parts.push({ text: chunk, match: false });
+      continue;
+    }
+    parts.push({ text: chunk.slice(0, end), match: true });
+    if (end + 1 < chunk.length) parts.push({ text: chunk.slice(end + 1), match: false });
+  }
+
+  return parts;
+}
@@ -0,0 +1,262 @@
+import type { PomodoroSession, PomodoroSessionType, TimerPreferences, TimerState, TodoDatabase } from "./database";
+import type { TimerCommand, TimerCommandPayload } from "./schemas";
+
+export interface TimerSnapshot extends TimerState {
+  remaining: number; // in seconds
+}
+
+export type TimerMessage =
+  | { type: "timer_updated"; timer: TimerSnapshot }
+  | { type: "session_started" | "session_completed" | "session_abandoned"; session: PomodoroSession };
+
+const getDuration = (preferences: TimerPreferences, type: PomodoroSessionType): number => {
+  const minutes = {
+    work: preferences.work_duration,
+    short_break: preferences.short_break_duration,
+    long_break: preferences.long_break_duration,
+  }[type];
+  return minutes * 60;
+};
+
+/**
+ * A user's Pomodoro timer. The server owns it so that every tab and device
+ * they use renders the same countdown, and so that it survives reloads and
+ * restarts: the state lives in the timer_state table and the only thing kept
+ * in memory is the timeout that completes the current session. `db` is
+ * scoped to the user.
+ *
+ * Commands are idempotent: pausing a paused timer or starting a running one
+ * just returns the current snapshot, so racing clients can't double-start.
+ */
+export class PomodoroClock {
+  private state: TimerState;
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private db: TodoDatabase, private publish: (message: TimerMessage) => void) {
+    this.state = this.db.getTimerState();
+  }
+
+  // Picks a running timer back up after a server restart
+  restore() {
+    this.schedule();
+  }
+
+  getSnapshot(): TimerSnapshot {
+    return {
+      ...this.state,
+      remaining: Math.max(0, Math.ceil(this.state.duration - this.elapsedSeconds())),
+    };
+  }
+
+  // Shared entry point for the HTTP and WebSocket command APIs. Returns an
+  // error message when the command or its payload is invalid.
+  execute(command: TimerCommand, payload: TimerCommandPayload = {}): TimerSnapshot | string {
+    // `reason` says why a skipped or reset session was interrupted
+    const reason = payload.reason ?? null;
+
+    switch (command) {
+      case "start":
+        if (payload.task_id && !this.db.getTask(payload.task_id)) {
+          return "Task not found";
+        }
+        return this.start(payload.task_id);
+      case "pause":
+        return this.pause();
+      case "resume":
+        return this.resume();
+      case "skip":
+        return this.skip(reason);
+      case "reset":
+        return this.reset(reason);
+      case "switch":
+        if (!payload.type) {
+          return "type is required to switch";
+        }
+        return this.switchType(payload.type);
+    }
+  }
+
+  start(taskId?: string | null): TimerSnapshot {
+    if (this.state.status !== "idle") {
+      return this.getSnapshot();
+    }
+
+    // Keep the previously focused task when none is given
+    const focusedTaskId = taskId === undefined ? this.state.task_id : taskId;
+    const task_id = focusedTaskId && this.db.getTask(focusedTaskId) ? focusedTaskId : null;
+    const now = new Date().toISOString();
+
+    const session = this.db.createPomodoroSession({
+      // Breaks are not attributed to the task being focused on
+      task_id: this.state.type === "work" ? task_id : null,
+      duration: this.state.duration,
+      started_at: now,
+      completed_at: null,
+      type: this.state.type,
+    });
+    this.publish({ type: "session_started", session });
+
+    return this.update({
+      status: "running",
+      session_id: session.id,
+      task_id,
+      started_at: now,
+      paused_at: null,
+      paused_seconds: 0,
+    });
+  }
+
+  pause(): TimerSnapshot {
+    if (this.state.status !== "running") {
+      return this.getSnapshot();
+    }
+
+    const now = new Date().toISOString();
+    if (this.state.session_id) {
+      this.db.pausePomodoroSession(this.state.session_id, now);
+    }
+
+    return this.update({ status: "paused", paused_at: now });
+  }
+
+  resume(): TimerSnapshot {
+    if (this.state.status !== "paused" || !this.state.paused_at) {
+      return this.getSnapshot();
+    }
+
+    const now = new Date();
+    if (this.state.session_id) {
+      this.db.resumePomodoroSession(this.state.session_id, now.toISOString());
+    }
+
+    const pausedFor = (now.getTime() - Date.parse(this.state.paused_at)) / 1000;
+    return this.update({
+      status: "running",
+      paused_at: null,
+      paused_seconds: this.state.paused_seconds + pausedFor,
+    });
+  }
+
+  // Moves on to the next session type without counting the current one
+  skip(reason: string | null = null): TimerSnapshot {
+    this.abandon(reason ?? "skipped");
+    return this.advance(false);
+  }
+
+  reset(reason: string | null = null): TimerSnapshot {
+    this.abandon(reason);
+    return this.update(this.idleState(this.state.type));
+  }
+
+  switchType(type: PomodoroSessionType): TimerSnapshot {
+    if (this.state.status !== "idle") {
+      return this.getSnapshot();
+    }
+
+    return this.update(this.idleState(type));
+  }
+
+  // Called when the preferences change so an idle timer shows the new duration
+  applyPreferences() {
+    if (this.state.status === "idle") {
+      this.update(this.idleState(this.state.type));
+    }
+  }
+
+  private complete() {
+    if (this.state.session_id) {
+      const session = this.db.completePomodoroSession(this.state.session_id);
+      if (session) {
+        this.publish({ type: "session_completed", session });
+      }
+    }
+
+    this.advance(true);
+  }
+
+  // Records the session in progress, if any, as interrupted
+  private abandon(reason: string | null) {
+    if (this.state.status === "idle" || !this.state.session_id) {
+      return;
+    }
+
+    const session = this.db.abandonPomodoroSession(this.state.session_id, reason);
+    if (session) {
+      this.publish({ type: "session_abandoned", session });
+    }
+  }
+
+  private advance(completed: boolean): TimerSnapshot {
+    const preferences = this.db.getTimerPreferences();
+    const sessionCount = completed && this.state.type === "work"
+      ? this.state.session_count + 1
+      : this.state.session_count;
+
+    let nextType: PomodoroSessionType;
+    if (this.state.type === "work") {
+      // After work session, take a break
+      nextType = sessionCount > 0 && sessionCount % preferences.sessions_until_long_break === 0
+        ? "long_break"
+        : "short_break";
+    } else {
+      // After break, back to work
+      nextType = "work";
+    }
+
+    const snapshot = this.update({
+      ...this.idleState(nextType, preferences),
+      session_count: sessionCount,
+    });
+
+    const autoStart = nextType === "work"
+      ? preferences.auto_start_pomodoros
+      : preferences.auto_start_breaks;
+
+    return autoStart ? this.start() : snapshot;
+  }
+
+  private idleState(
+    type: PomodoroSessionType,
+    preferences = this.db.getTimerPreferences()
+  ): Partial<TimerState> {
+    return {
+      status: "idle",
+      type,
+      session_id: null,
+      duration: getDuration(preferences, type),
+      started_at: null,
+      paused_at: null,
+      paused_seconds: 0,
+    };
+  }
+
+  private elapsedSeconds(): number {
+    if (!this.state.started_at) {
+      return 0;
+    }
+
+    const until = this.state.paused_at ? Date.parse(this.state.paused_at) : Date.now();
+    return (until - Date.parse(this.state.started_at)) / 1000 - this.state.paused_seconds;
+  }
+
+  private schedule() {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+
+    if (this.state.status === "running") {
+      const remainingMs = (this.state.duration - this.elapsedSeconds()) * 1000;
+      this.timeout = setTimeout(() => this.complete(), Math.max(0, remainingMs));
+    }
+  }
+
+  private update(changes: Partial<TimerState>): TimerSnapshot {
+    this.state = this.db.saveTimerState({ ...this.state, ...changes });
+    this.schedule();
+
+    const snapshot = this.getSnapshot();
+    this.publish({ type: "timer_updated", timer: snapshot });
+    return snapshot;
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { custom, hexColor, integer, object, oneOf, optional, string, tagged } from "./validation";
+
+describe("custom", () => {
+  const word = custom(value =>
+    typeof value === "string" && /^\w+$/.test(value) ? { value } : { error: "must be a single word" }
+  );
+
+  test("accepts a value the check passes, strings included", () => {
+    expect(word.parse("hello")).toEqual({ ok: true, value: "hello" });
+  });
+
+  test("reports the check's error at the field's path", () => {
+    expect(object({ name: word }).parse({ name: "two words" })).toEqual({
+      ok: false,
+      errors: [{ path: "name", message: "must be a single word" }],
+    });
+  });
+
+  test("keeps a more specific path given in the error", () => {
+    const rule = custom(() => ({ error: "rule.interval must be positive" }));
+    expect(object({ rule }).parse({ rule: {} })).toEqual({
+      ok: false,
+      errors: [{ path: "rule.interval", message: "must be positive" }],
+    });
+  });
+});
+
+describe("hexColor", () => {
+  test("lowercases a valid color", () => {
+    expect(hexColor().parse("#3B82F6")).toEqual({ ok: true, value: "#3b82f6" });
+  });
+
+  test("refuses anything else", () => {
+    for (const value of ["3b82f6", "#3b82f", "#3b82fg", 42, null]) {
+      expect(hexColor().parse(value).ok).toBe(false);
+    }
+  });
+});
+
+describe("object", () => {
+  const schema = object({ name: string({ min: 1 }), count: optional(integer({ min: 0 })) });
+
+  test("rejects unknown fields, those on the prototype included", () => {
+    for (const key of ["extra", "constructor", "toString"]) {
+      expect(schema.parse({ name: "a", [key]: 1 })).toEqual({
+        ok: false,
+        errors: [{ path: key, message: "is not a known field" }],
+      });
+    }
+  });
+
+  test("leaves out optional fields that weren't sent", () => {
+    expect(schema.parse({ name: "a" })).toEqual({ ok: true, value: { name: "a" } });
+    expect(schema.parse({})).toEqual({ ok: false, errors: [{ path: "name", message: "is required" }] });
+  });
+});
+
+describe("tagged", () => {
+  const message = tagged("type", {
+    ping: object({ type: oneOf(["ping"]) }),
+    say: object({ type: oneOf(["say"]), text: string({ min: 1 }) }),
+  });
+
+  test("checks a value against the variant its tag names", () => {
+    expect(message.parse({ type: "say", text: "hi" })).toEqual({ ok: true, value: { type: "say", text: "hi" } });
+    expect(message.parse({ type: "ping", text: "hi" }).ok).toBe(false);
+  });
+
+  test("refuses an unknown tag, inherited names included", () => {
+    for (const type of ["shout", "toString", undefined]) {
+      expect(message.parse({ type })).toEqual({
+        ok: false,
+        errors: [{ path: "type", message: "must be one of ping, say" }],
+      });
+    }
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * A small schema layer for validating request input. Schemas check a value
+ * and report every problem with the path of the field it's in; the types they
+ * accept are inferred, so the frontend can build requests against them.
+ */
+import { isISODate } from "./dates";
+
+export interface FieldError {
+  path: string; // e.g. "recurrence.interval"; empty for the value itself
+  message: string;
+}
+
+export type Result<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): Result<T>;
+  // Set by optional(): the field may be left out of an object
+  optional?: boolean;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const ok = <T>(value: T): Result<T> => ({ ok: true, value });
+const fail = <T>(path: string, message: string): Result<T> => ({ ok: false, errors: [{ path, message }] });
+
+const join = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key));
+
+// "title must not be empty", for messages shown as a single line
+export const formatFieldError = (error: FieldError) =>
+  error.path ? `${error.path} ${error.message}` : error.message;
+
+export function string({ min = 0, max = Infinity, trim = true } = {}): Schema<string> {
+  return {
+    parse(value, path = "") {
+      if (typeof value !== "string") {
+        return fail(path, "must be a string");
+      }
+      const text = trim ? value.trim() : value;
+      if (text.length < min || text.length > max) {
+        if (min === 1 && text.length === 0) {
+          return fail(path, "must not be empty");
+        }
+        return fail(path, max === Infinity
+          ? `must be at least ${min} characters`
+          : `must be between ${min} and ${max} characters`);
+      }
+      return ok(text);
+    },
+  };
+}
+
+// Whole numbers; `coerce` also accepts them as strings, for query parameters
+export function integer({ min = -Infinity, max = Infinity, coerce = false } = {}): Schema<number> {
+  return {
+    parse(value, path = "") {
+      const number = coerce && typeof value === "string" && /^-?\d+$/.test(value) ? Number(value) : value;
+      if (typeof number !== "number" || !Number.isInteger(number) || number < min || number > max) {
+        if (min === -Infinity && max === Infinity) return fail(path, "must be a whole number");
+        if (max === Infinity) return fail(path, `must be a whole number of at least ${min}`);
+        return fail(path, `must be a whole number between ${min} and ${max}`);
+      }
+      return ok(number);
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    parse(value, path = "") {
+      return typeof value === "boolean" ? ok(value) : fail(path, "must be a boolean");
+    },
+  };
+}
+
+export function isoDate(): Schema<string> {
+  return {
+    parse(value, path = "") {
+      return isISODate(value) ? ok(value) : fail(path, "must be a date in YYYY-MM-DD format");
+    },
+  };
+}
+
+// Colors like #3b82f6, lowercased
+export function hexColor(): Schema<string> {
+  return {
+    parse(value, path = "") {
+      return typeof value === "string" && /^#[0-9a-fA-F]{6}$/.test(value)
+        ? ok(value.toLowerCase())
+        : fail(path, "must be a hex color like #3b82f6");
+    },
+  };
+}
+
+// Lowercased, so the same address always matches
+export function email(): Schema<string> {
+  return {
+    parse(value, path = "") {
+      const text = typeof value === "string" ? value.trim() : "";
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text) && text.length <= 254
+        ? ok(text.toLowerCase())
+        : fail(path, "must be an email address");
+    },
+  };
+}
+
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    parse(value, path = "") {
+      return values.includes(value as T)
+        ? ok(value as T)
+        : fail(path, `must be one of ${values.join(", ")}`);
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse(value, path = "") {
+      return value === null ? ok(null) : schema.parse(value, path);
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> & { optional: true } {
+  return {
+    optional: true,
+    parse(value, path = "") {
+      return value === undefined ? ok(undefined) : schema.parse(value, path);
+    },
+  };
+}
+
+export function array<T>(schema: Schema<T>, { max = Infinity } = {}): Schema<T[]> {
+  return {
+    parse(value, path = "") {
+      if (!Array.isArray(value)) {
+        return fail(path, "must be a list");
+      }
+      if (value.length > max) {
+        return fail(path, `must have at most ${max} items`);
+      }
+
+      const items: T[] = [];
+      const errors: FieldError[] = [];
+      value.forEach((item, index) => {
+        const result = schema.parse(item, join(path, index));
+        if (result.ok) items.push(result.value);
+        else errors.push(...result.errors);
+      });
+      return errors.length > 0 ? { ok: false, errors } : ok(items);
+    },
+  };
+}
+
+// What a custom() check gives back: the value, or why it was refused
+export type CheckResult<T> = { value: T } | { error: string };
+
+/**
+ * Wraps a check written the way the older helpers are. Errors that start
+ * with the field's name (like "recurrence.interval must be …") keep the more
+ * specific path they give.
+ */
+export function custom<T>(check: (value: unknown) => CheckResult<T>): Schema<T> {
+  return {
+    parse(value, path = "") {
+      const result = check(value);
+      if (!("error" in result)) {
+        return ok(result.value);
+      }
+
+      const field = path.split(".").at(-1) ?? "";
+      const [first = "", ...rest] = result.error.split(" ");
+      if (field && (first === field || first.startsWith(`${field}.`))) {
+        const parent = path.slice(0, path.length - field.length);
+        return fail(parent + first, rest.join(" "));
+      }
+      return fail(path, result.error);
+    },
+  };
+}
+
+/**
+ * One of several schemas, picked by the value of the `key` field, as in
+ * messages tagged with their type. The chosen schema checks that field too.
+ */
+export function tagged<V extends Record<string, Schema<unknown>>>(
+  key: string,
+  variants: V
+): Schema<Infer<V[keyof V]>> {
+  return {
+    parse(value, path = "") {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return fail(path, "must be an object");
+      }
+
+      const tag = (value as Record<string, unknown>)[key];
+      if (typeof tag !== "string" || !Object.hasOwn(variants, tag)) {
+        return fail(join(path, key), `must be one of ${Object.keys(variants).join(", ")}`);
+      }
+      return variants[tag]!.parse(value, path) as Result<Infer<V[keyof V]>>;
+    },
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { optional: true } ? K : never;
+}[keyof S];
+
+type InferShape<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+};
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Plain objects with exactly the given fields. Unknown fields are rejected
+ * unless `allowUnknown` is set, in which case they're dropped; fields left
+ * out or sent as undefined are omitted from the result.
+ */
+export function object<S extends Shape>(
+  shape: S,
+  { allowUnknown = false } = {}
+): Schema<Simplify<InferShape<S>>> {
+  return {
+    parse(value, path = "") {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return fail(path, "must be an object");
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const errors: FieldError[] = [];
+
+      if (!allowUnknown) {
+        for (const key of Object.keys(input)) {
+          if (!Object.hasOwn(shape, key)) {
+            errors.push({ path: join(path, key), message: "is not a known field" });
+          }
+        }
+      }
+
+      for (const [key, schema] of Object.entries(shape)) {
+        if (input[key] === undefined && !schema.optional) {
+          errors.push({ path: join(path, key), message: "is required" });
+          continue;
+        }
+
+        const result = schema.parse(input[key], join(path, key));
+        if (!result.ok) {
+          errors.push(...result.errors);
+        } else if (result.value !== undefined) {
+          output[key] = result.value;
+        }
+      }
+
+      return errors.length > 0 ? { ok: false, errors } : ok(output as Simplify<InferShape<S>>);
+    },
+  };
+}